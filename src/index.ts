@@ -11,28 +11,85 @@ export {
   System,
   ReactSystem,
   EventBus,
+  EventStore,
+  TimeTravel,
+  VirtualClock,
+  Scheduler,
   
   // Helper functions
   createSystem,
   createDecider,
+  createAggregateDecider,
+  createIdGenerator,
   createProjector,
   createProcessManager,
+  createSaga,
+  mockEffectHandler,
+  effectDeciderConfig,
+  createJoin,
+  joinSaga,
   select,
   
   // Types
   type Decide,
+  type AsyncDecide,
   type Evolve,
   type ResolveContext,
+  type AsyncResolveContext,
+  type SystemView,
+  type SystemServices,
+  type Clock,
+  type IdGenerator,
+  type ContextRead,
   type Project,
   type React,
   type DeciderConfig,
   type Decider,
+  type DeciderRuntime,
+  type StreamIds,
+  type AggregateDeciderConfig,
+  type AggregateDecider,
+  type AggregateInstance,
+  type AggregateState,
   type ProjectorConfig,
+  type MultiSourceProjectorConfig,
+  type SourcedEvent,
+  type SourceEventType,
+  type EventOf,
   type Projector,
   type ProcessManagerConfig,
+  type ProcessManagerDispatch,
+  type ProcessManagerOutcome,
+  type RoutedProcessManagerConfig,
+  type RoutedCommand,
+  type SagaConfig,
+  type Saga,
+  type SagaInstance,
+  type SagaInstances,
+  type JoinConfig,
+  type JoinState,
   type SystemConfig,
+  type SystemOptions,
+  type ResetOptions,
   type TraceEntry,
   type DispatchResult,
+  type DispatchErrorCode,
+  type DispatchOptions,
+  type CascadeStep,
+  type ScheduledCommand,
+  type EffectConfig,
+  type Effect,
+  type EffectHandler,
+  type EffectStatus,
+  type EffectRecord,
+  type EffectOutbox,
+  type EffectCommand,
+  type EffectEvent,
+  type ScheduleOptions,
+  type EventEnvelope,
+  type EnvelopeMetadata,
+  type SystemEvent,
+  type EventQuery,
   type Listener,
   type Unsubscribe,
 } from './protopal';
@@ -59,6 +116,19 @@ export {
   type PersistenceAdapter,
 } from './persistence';
 
+// Read model exports
+export {
+  createReadModel,
+  readModelProjector,
+  type ReadModel,
+  type ReadModelConfig,
+  type ReadModelQuery,
+  type ReadModelPage,
+  type ReadModelState,
+  type ReadModelWriter,
+  type IndexValue,
+} from './read-model';
+
 // Re-export signals for convenience
 export { signal, computed, effect } from '@preact/signals-react';
 export type { Signal, ReadonlySignal } from '@preact/signals-react';
\ No newline at end of file
@@ -5,7 +5,7 @@
  * Save and restore decider state across sessions
  */
 
-import type { Decider, System } from './protopal';
+import type { Decider, EventEnvelope, ScheduledCommand, System } from './protopal';
 
 // ============================================================
 // Core Interfaces
@@ -38,8 +38,30 @@ export interface PersistenceOptions {
   /** Save event log in addition to state */
   saveEvents?: boolean;
   
-  /** Maximum events to keep */
+  /** Maximum events to keep (ignored when restoring by replay, which needs the full log) */
   maxEvents?: number;
+
+  /**
+   * How state is restored on load:
+   * - 'snapshot' overwrites state with the last saved JSON snapshot
+   * - 'replay' folds the saved events through the current evolve, so model changes apply
+   *
+   * Replay requires saveEvents for deciders, whose saved envelopes are loaded back into
+   * the event store. enableForSystem persists the whole event store in both modes, so
+   * later rebuilds from the store see the restored history; snapshots are laid over it.
+   */
+  restore?: 'snapshot' | 'replay';
+}
+
+/** Storage key for the system-wide event history */
+const SYSTEM_HISTORY_KEY = 'system:history';
+
+/** Storage key for the virtual clock and pending scheduled commands */
+const SYSTEM_SCHEDULE_KEY = 'system:schedule';
+
+interface SavedSchedule {
+  now: number;
+  pending: ScheduledCommand[];
 }
 
 // ============================================================
@@ -97,6 +119,8 @@ export class LocalStorageAdapter implements PersistenceAdapter {
 export class PersistenceManager {
   private saveTimeouts = new Map<string, any>();
   private eventLogs = new Map<string, any[]>();
+  /** Envelope ids logged in this session, by decider */
+  private loggedIds = new Map<string, Set<string>>();
   
   constructor(
     private adapter: PersistenceAdapter,
@@ -107,6 +131,7 @@ export class PersistenceManager {
       saveDebounce: 500,
       saveEvents: false,
       maxEvents: 1000,
+      restore: 'snapshot',
       ...options
     };
   }
@@ -119,7 +144,16 @@ export class PersistenceManager {
     
     // Load initial state
     this.loadDeciderState(decider);
-    
+
+    return this.watchDecider(decider);
+  }
+
+  /** Save a decider's state (and events, if enabled) as it changes */
+  private watchDecider<TCommand, TState, TEvent>(
+    decider: Decider<TCommand, TState, TEvent>
+  ): () => void {
+    const key = decider.name;
+
     if (this.options.autoSave) {
       // Subscribe to state changes
       const unsubscribe = this.subscribeToStateChanges(decider);
@@ -142,10 +176,115 @@ export class PersistenceManager {
 
   /** Enable persistence for all deciders in a system */
   enableForSystem(system: System): () => void {
-    // Note: This would require System to expose its deciders
-    // For now, users need to call enableForDecider individually
-    console.warn('enableForSystem not yet implemented. Use enableForDecider for each decider.');
-    return () => {};
+    const scheduleLoaded = this.loadSchedule(system);
+    scheduleLoaded.catch(console.error);
+
+    const cleanups: Array<() => void> = [
+      this.enableForSchedule(system),
+      this.enableForReset(system),
+    ];
+
+    // Persist the shared event store and rehydrate every decider from it, so a later
+    // rebuild from the store (reset of one decider, time travel) starts from the same history.
+    // The clock is restored first, so join deadlines are judged against the saved time.
+    const historyLoaded = scheduleLoaded
+      .catch(() => {})
+      .then(() => this.loadSystemHistory(system));
+    historyLoaded.catch(console.error);
+
+    if (this.options.restore !== 'replay') {
+      // Snapshot mode: the saved states are laid over the rehydrated ones
+      const deciders = [...system.deciders.values()];
+      historyLoaded
+        .catch(() => {})
+        .then(() => Promise.all(deciders.map((decider) => this.loadDeciderState(decider))))
+        .catch(console.error);
+      cleanups.push(...deciders.map((decider) => this.watchDecider(decider)));
+    }
+
+    if (this.options.autoSave) {
+      const unsubscribe = system.allEvents.subscribe(() =>
+        this.debounceSave(SYSTEM_HISTORY_KEY, () => this.saveSystemHistory(system))
+      );
+
+      cleanups.push(() => {
+        unsubscribe();
+        this.clearSaveTimeout(SYSTEM_HISTORY_KEY);
+      });
+    }
+
+    return () => cleanups.forEach((fn) => fn());
+  }
+
+  /** Save the virtual clock and pending commands as the schedule changes */
+  private enableForSchedule(system: System): () => void {
+    if (!this.options.autoSave) return () => {};
+
+    const save = () => this.debounceSave(SYSTEM_SCHEDULE_KEY, () => this.saveSchedule(system));
+    const unsubscribeTicks = system.clock.ticks.subscribe(save);
+    const unsubscribeTrace = system.trace.subscribe((entry) => {
+      if (entry.kind === 'schedule') save();
+    });
+
+    return () => {
+      unsubscribeTicks();
+      unsubscribeTrace();
+      this.clearSaveTimeout(SYSTEM_SCHEDULE_KEY);
+    };
+  }
+
+  /** Follow system.reset: delete or rewrite saved data for the reset scope when asked to */
+  private enableForReset(system: System): () => void {
+    return system.trace.subscribe((entry) => {
+      if (entry.kind !== 'reset' || !entry.clearPersisted) return;
+
+      const names = entry.decider ? [entry.decider] : [...system.deciders.keys()];
+      const cleared = names.map((name) => this.clearDeciderState(name));
+
+      if (entry.decider) {
+        // The remaining history is still wanted
+        cleared.push(this.saveSystemHistory(system));
+        cleared.push(this.saveSchedule(system));
+      } else {
+        this.clearSaveTimeout(SYSTEM_HISTORY_KEY);
+        this.clearSaveTimeout(SYSTEM_SCHEDULE_KEY);
+        cleared.push(this.adapter.delete(SYSTEM_HISTORY_KEY), this.adapter.delete(SYSTEM_SCHEDULE_KEY));
+      }
+
+      Promise.all(cleared).catch(console.error);
+    });
+  }
+
+  /** Manually save the virtual clock and pending scheduled commands */
+  async saveSchedule(system: System): Promise<void> {
+    const schedule: SavedSchedule = {
+      now: system.clock.now(),
+      pending: system.scheduler.pending.peek(),
+    };
+    await this.adapter.save(SYSTEM_SCHEDULE_KEY, schedule);
+  }
+
+  /** Manually load the virtual clock and pending scheduled commands */
+  async loadSchedule(system: System): Promise<void> {
+    const saved: SavedSchedule | null = await this.adapter.load(SYSTEM_SCHEDULE_KEY);
+    if (saved) {
+      system.scheduler.load(saved.pending);
+      // Keep any fast-forwarding, but never wind a clock back past what it already shows
+      if (saved.now > system.clock.now()) system.clock.set(saved.now);
+    }
+  }
+
+  /** Manually save the system's full event history */
+  async saveSystemHistory(system: System): Promise<void> {
+    await this.adapter.save(SYSTEM_HISTORY_KEY, system.eventStore.readAll());
+  }
+
+  /** Manually load the system's event history and rebuild all deciders from it */
+  async loadSystemHistory(system: System): Promise<void> {
+    const savedHistory: EventEnvelope[] | null = await this.adapter.load(SYSTEM_HISTORY_KEY);
+    if (savedHistory) {
+      system.rehydrate(savedHistory);
+    }
   }
 
   /** Manually save decider state */
@@ -154,25 +293,38 @@ export class PersistenceManager {
     await this.adapter.save(decider.name, state);
     
     if (this.options.saveEvents) {
-      const events = this.eventLogs.get(decider.name) || [];
+      const events = this.storedLog(decider);
+      this.eventLogs.set(decider.name, events);
       await this.adapter.save(`${decider.name}:events`, events);
     }
   }
 
   /** Manually load decider state */
   async loadDeciderState<TState>(decider: Decider<any, TState, any>): Promise<void> {
+    const savedEvents = this.options.saveEvents
+      ? await this.adapter.load(`${decider.name}:events`)
+      : null;
+    if (savedEvents) {
+      this.eventLogs.set(decider.name, savedEvents);
+    }
+
+    if (this.options.restore === 'replay' && savedEvents) {
+      // Rebuild through the current evolve instead of trusting the snapshot.
+      // The envelopes go back into the event store, so versions, history and
+      // later rebuilds of the system see them.
+      decider.load(
+        savedEvents
+          .map((entry: { envelope?: EventEnvelope }) => entry.envelope)
+          .filter((envelope: EventEnvelope | undefined): envelope is EventEnvelope => envelope !== undefined)
+      );
+      return;
+    }
+
     const savedState = await this.adapter.load(decider.name);
     if (savedState !== null) {
       // Directly set the signal value
       decider.state.value = savedState;
     }
-    
-    if (this.options.saveEvents) {
-      const savedEvents = await this.adapter.load(`${decider.name}:events`);
-      if (savedEvents) {
-        this.eventLogs.set(decider.name, savedEvents);
-      }
-    }
   }
 
   /** Clear saved state for a decider */
@@ -182,6 +334,7 @@ export class PersistenceManager {
       await this.adapter.delete(`${deciderName}:events`);
     }
     this.eventLogs.delete(deciderName);
+    this.loggedIds.delete(deciderName);
   }
 
   /** Get saved event log for a decider */
@@ -191,6 +344,19 @@ export class PersistenceManager {
 
   // Private helpers
 
+  /** The event log without events a failed publish took back out of the store */
+  private storedLog(decider: Decider<any, any, any>): any[] {
+    const stored = new Set(decider.history.peek().map((envelope) => envelope.id));
+    const log = this.eventLogs.get(decider.name) || [];
+    if (this.options.restore === 'replay') {
+      // Restored logs are loaded into the store, so the store is the whole truth
+      return log.filter((entry) => stored.has(entry.envelope?.id));
+    }
+    // Snapshot mode never loads earlier sessions' events into the store
+    const logged = this.loggedIds.get(decider.name);
+    return log.filter((entry) => stored.has(entry.envelope?.id) || !logged?.has(entry.envelope?.id));
+  }
+
   private subscribeToStateChanges<TState>(
     decider: Decider<any, TState, any>
   ): () => void {
@@ -212,16 +378,27 @@ export class PersistenceManager {
   private subscribeToEvents<TEvent>(
     decider: Decider<any, any, TEvent>
   ): () => void {
-    return decider.events.subscribe((event) => {
+    return decider.events.subscribe((event, envelope) => {
+      // Only stored events — CommandValidationFailed is published but never evolved
+      if (!envelope) return;
+
       const key = decider.name;
       const events = this.eventLogs.get(key) || [];
+      const logged = this.loggedIds.get(key) ?? new Set<string>();
+      logged.add(envelope.id);
+      this.loggedIds.set(key, logged);
       events.push({
         event,
-        timestamp: Date.now()
+        timestamp: envelope.recordedAt,
+        envelope
       });
       
-      // Trim to max events
-      if (this.options.maxEvents && events.length > this.options.maxEvents) {
+      // Trim to max events — a trimmed log can no longer be replayed
+      if (
+        this.options.restore !== 'replay' &&
+        this.options.maxEvents &&
+        events.length > this.options.maxEvents
+      ) {
         events.splice(0, events.length - this.options.maxEvents);
       }
       
@@ -234,14 +411,16 @@ export class PersistenceManager {
   }
 
   private scheduleSave<TState>(decider: Decider<any, TState, any>): void {
-    const key = decider.name;
-    
+    this.debounceSave(decider.name, () => this.saveDeciderState(decider));
+  }
+
+  private debounceSave(key: string, save: () => Promise<void>): void {
     // Clear existing timeout
     this.clearSaveTimeout(key);
     
     // Schedule new save
     const timeout = setTimeout(() => {
-      this.saveDeciderState(decider).catch(console.error);
+      save().catch(console.error);
     }, this.options.saveDebounce);
     
     this.saveTimeouts.set(key, timeout);
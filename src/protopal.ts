@@ -29,21 +29,22 @@ if (typeof window !== 'undefined' && !window.__PROTOPAL_REACT_AUTO_IMPORTED__) {
   }
 }
 
-import { signal, computed, type Signal, type ReadonlySignal } from '@preact/signals-react';
+import { signal, computed, batch, type Signal, type ReadonlySignal } from '@preact/signals-react';
 import type { z } from 'zod';
 
 // ============================================================
 // Minimal Event Bus — for discrete events, not state
 // ============================================================
 
-export type Listener<T> = (value: T) => void;
+/** Listeners on decider buses also receive the event's envelope */
+export type Listener<T> = (value: T, envelope?: EventEnvelope) => void;
 export type Unsubscribe = () => void;
 
 export class EventBus<T> {
   private listeners = new Set<Listener<T>>();
 
-  emit(value: T): void {
-    this.listeners.forEach((l) => l(value));
+  emit(value: T, envelope?: EventEnvelope): void {
+    this.listeners.forEach((l) => l(value, envelope));
   }
 
   subscribe(listener: Listener<T>): Unsubscribe {
@@ -53,8 +54,8 @@ export class EventBus<T> {
 
   filter(predicate: (value: T) => boolean): EventBus<T> {
     const filtered = new EventBus<T>();
-    this.subscribe((value) => {
-      if (predicate(value)) filtered.emit(value);
+    this.subscribe((value, envelope) => {
+      if (predicate(value)) filtered.emit(value, envelope);
     });
     return filtered;
   }
@@ -70,36 +71,135 @@ export type Decide<TCommand, TState, TContext, TEvent> = (
   context: TContext
 ) => TEvent[];
 
+export type AsyncDecide<TCommand, TState, TContext, TEvent> = (
+  command: TCommand,
+  state: TState,
+  context: TContext
+) => Promise<TEvent[]>;
+
 export type Evolve<TState, TEvent> = (
   state: TState,
   event: TEvent
 ) => TState;
 
 export type ResolveContext<TCommand, TContext> = (
-  command: TCommand
+  command: TCommand,
+  view: SystemView
 ) => TContext;
 
+export type AsyncResolveContext<TCommand, TContext> = (
+  command: TCommand,
+  view: SystemView
+) => Promise<TContext>;
+
+/** Source of the current time, in ms since the epoch */
+export interface Clock {
+  now(): number;
+}
+
+/** Source of unique ids for commands, envelopes and anything the model needs to name */
+export interface IdGenerator {
+  next(): string;
+  /**
+   * Called once history up to `sequence` has been loaded into the store. A
+   * seeded generator moves to a sequence derived from it, so ids already in
+   * the restored history are not issued again.
+   */
+  resume?(sequence: number): void;
+}
+
+/**
+ * Time and identity as the system provides them. Use these instead of
+ * Date.now() or crypto.randomUUID() so replays and shared sessions line up.
+ */
+export interface SystemServices {
+  clock: Clock;
+  ids: IdGenerator;
+}
+
+/** Read-only view of the rest of the system, handed to resolveContext */
+export interface SystemView extends SystemServices {
+  /** Current state of a decider, by name */
+  decider<TState = any>(name: string): TState;
+  /** Current state of a projector, by name */
+  projector<TReadState = any>(name: string): TReadState;
+}
+
+/** A read made through the SystemView while resolving context */
+export interface ContextRead {
+  kind: 'decider' | 'projector';
+  name: string;
+}
+
 export type Project<TReadState, TEvent> = (
   readState: TReadState,
-  event: TEvent
+  event: TEvent,
+  envelope: EventEnvelope | undefined,
+  services: SystemServices
 ) => TReadState;
 
 export type React<TEvent, TCommand> = (
-  event: TEvent
+  event: TEvent,
+  envelope: EventEnvelope | undefined,
+  services: SystemServices
 ) => TCommand[];
 
 // ============================================================
 // Dispatch Result
 // ============================================================
 
+export type DispatchErrorCode =
+  | 'ValidationFailed'
+  | 'DecisionFailed'
+  | 'ConcurrencyConflict'
+  | 'Refused'
+  | 'DeciderNotFound'
+  | 'PublishFailed'
+  | 'AsyncRequired'
+  | 'CascadeLimitExceeded'
+  | 'Exception';
+
 export interface DispatchResult {
   success: boolean;
   decider: string;
   command: string;
   events: Array<{ type: string; payload?: unknown }>;
+  /** Stream the command was handled on and its version afterwards */
+  streamId?: string;
+  version?: number;
+  /** Id given to the command — the causationId of the events it produced */
+  commandId?: string;
   // When success is false:
+  errorCode?: DispatchErrorCode;
   failedConstraints?: string[];
   error?: string;
+  /** Set when errorCode is 'ConcurrencyConflict' */
+  conflict?: { streamId: string; expectedVersion: number; actualVersion: number };
+  /** In run-to-completion mode: results of the queued follow-up commands, in processing order */
+  cascade?: DispatchResult[];
+  /** Set when errorCode is 'CascadeLimitExceeded': the process-manager hops that led there */
+  cascadeChain?: CascadeStep[];
+}
+
+/** One process-manager hop in a cascade: an event from one decider leading to a command for another */
+export interface CascadeStep {
+  decider: string;
+  event: string;
+  manager: string;
+  target: string;
+}
+
+export interface DispatchOptions {
+  /** Reject with a ConcurrencyConflict unless the command's stream is at this version */
+  expectedVersion?: number;
+  /** Who is issuing the command — defaults to 'user'; process managers pass their name */
+  source?: string;
+  /** Causal chain to join — a new chain starts at this command when omitted */
+  correlationId?: string;
+  /** Id of the event or command that led to this command */
+  causationId?: string;
+  /** The person or role on whose behalf the command is issued */
+  actor?: string;
 }
 
 // ============================================================
@@ -107,25 +207,337 @@ export interface DispatchResult {
 // ============================================================
 
 export type TraceEntry =
-  | { kind: 'command'; timestamp: number; command: any; source: string }
-  | { kind: 'context'; timestamp: number; command: any; context: any }
-  | { kind: 'event'; timestamp: number; event: any; causedBy: any }
+  | {
+      kind: 'command';
+      timestamp: number;
+      command: any;
+      source: string;
+      commandId: string;
+      correlationId: string;
+      causationId?: string;
+      actor?: string;
+    }
+  | { kind: 'context'; timestamp: number; command: any; context: any; reads?: ContextRead[] }
+  | { kind: 'event'; timestamp: number; event: any; causedBy: any; envelope?: EventEnvelope }
   | { kind: 'evolve'; timestamp: number; event: any; before: any; after: any }
   | { kind: 'projection'; timestamp: number; projector: string; event: any }
-  | { kind: 'process-manager'; timestamp: number; manager: string; trigger: any; commands: any[] }
+  | { kind: 'projector-rebuild'; timestamp: number; projector: string; events: number }
+  | {
+      kind: 'process-manager';
+      timestamp: number;
+      manager: string;
+      trigger: any;
+      commands: any[];
+      /** Saga instance the trigger was routed to */
+      instance?: string;
+    }
+  | {
+      kind: 'process-manager-result';
+      timestamp: number;
+      manager: string;
+      command: any;
+      result: DispatchResult;
+      /** Event that made the manager issue the command */
+      trigger: any;
+      triggerId?: string;
+      attempt: number;
+      /** Follow-up commands returned by onResult */
+      commands: any[];
+    }
+  | { kind: 'queued'; timestamp: number; decider: string; command: any; source: string; position: number }
+  | {
+      kind: 'compensation';
+      timestamp: number;
+      saga: string;
+      instance: string;
+      /** The rejected command that triggered the rollback */
+      failed: DispatchResult;
+      /** Compensating commands, most recent step first */
+      commands: any[];
+    }
+  | {
+      kind: 'effect';
+      timestamp: number;
+      effect: string;
+      id: string;
+      status: EffectStatus;
+      request: any;
+      result?: any;
+      error?: string;
+    }
+  | { kind: 'time-travel'; timestamp: number; position: number | null }
+  | {
+      kind: 'reset';
+      timestamp: number;
+      /** The decider whose history was dropped, or undefined for a full reset */
+      decider?: string;
+      clearPersisted: boolean;
+    }
+  | {
+      kind: 'schedule';
+      timestamp: number;
+      action: 'scheduled' | 'fired' | 'cancelled';
+      item: ScheduledCommand;
+    }
   | { kind: 'error'; timestamp: number; phase: string; error: any };
 
+// ============================================================
+// Event Envelopes — metadata wrapped around every stored event
+// ============================================================
+
+/**
+ * decide and evolve only ever see the bare domain event; the envelope travels
+ * alongside it to projectors, process managers, allEvents and persistence.
+ */
+export interface EventEnvelope<TEvent = any> {
+  /** Unique id of this event */
+  id: string;
+  /** Global position across all deciders, starting at 1 */
+  sequence: number;
+  /** Position within the owning decider's history, starting at 1 */
+  deciderSequence: number;
+  decider: string;
+  /** Stream the event belongs to — the decider name unless the decider splits its streams */
+  streamId: string;
+  recordedAt: number;
+  /** Id shared by every command and event in one causal chain */
+  correlationId: string;
+  /** Id of the command that directly caused this event */
+  causationId: string;
+  /** Version of the stream after this event — rejections (DecisionFailed) leave it unchanged */
+  streamVersion: number;
+  /** Who issued the command — 'user' or a process manager name */
+  source: string;
+  /** The person or role on whose behalf the command was issued */
+  actor?: string;
+  event: TEvent;
+}
+
+/** Envelope fields supplied by the dispatching decider; the store assigns the rest */
+export type EnvelopeMetadata = Pick<
+  EventEnvelope,
+  'decider' | 'streamId' | 'streamVersion' | 'correlationId' | 'causationId' | 'source' | 'actor'
+>;
+
+/** Unique id for commands and event envelopes */
+function generateId(): string {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * UUID-shaped ids. With a seed the sequence is the same on every run;
+ * without one ids are random.
+ */
+export function createIdGenerator(seed?: number): IdGenerator {
+  if (seed === undefined) return { next: generateId };
+
+  // mulberry32
+  let current = seed >>> 0;
+  const random = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const hex = (length: number) =>
+    Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+
+  return {
+    next: () => `${hex(8)}-${hex(4)}-4${hex(3)}-${'89ab'[Math.floor(random() * 4)]}${hex(3)}-${hex(12)}`,
+    resume: (sequence) => {
+      current = hashString(`${seed}:${sequence}`);
+    },
+  };
+}
+
+/** FNV-1a — a stable 32-bit seed from a string */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Wall-clock time and random ids, for anything not wired to a System */
+const defaultServices: SystemServices = {
+  clock: { now: () => Date.now() },
+  ids: createIdGenerator(),
+};
+
+/**
+ * Services for folding one stored event: the clock reads its recordedAt and
+ * ids are seeded from its id, so refolding the same history gives the same state.
+ */
+function eventServices(envelope: EventEnvelope | undefined, services: SystemServices): SystemServices {
+  if (!envelope) return services;
+  return {
+    clock: { now: () => envelope.recordedAt },
+    ids: createIdGenerator(hashString(envelope.id)),
+  };
+}
+
+// ============================================================
+// Event Store — append-only history of every decided event
+// ============================================================
+
+export interface EventQuery {
+  decider?: string;
+  /** One event type or a list of accepted types */
+  type?: string | string[];
+  /** Inclusive lower bound on the global sequence */
+  fromSequence?: number;
+  /** Inclusive upper bound on the global sequence */
+  toSequence?: number;
+  limit?: number;
+}
+
+function streamKey(decider: string, streamId: string): string {
+  return `${decider}/${streamId}`;
+}
+
+export class EventStore {
+  /** Every stored event in append order — read .value in JSX */
+  readonly events = signal<EventEnvelope[]>([]);
+
+  /** Stamps envelopes — deciders sharing this store also take command ids from it */
+  constructor(readonly services: SystemServices = defaultServices) {}
+
+  private lastSequence = 0;
+  private deciderSequences = new Map<string, number>();
+  private streamVersions = new Map<string, number>();
+
+  /** Sequence number of the most recent event (0 when empty) */
+  get head(): number {
+    return this.lastSequence;
+  }
+
+  append<TEvent>(event: TEvent, metadata: EnvelopeMetadata): EventEnvelope<TEvent> {
+    const deciderSequence = (this.deciderSequences.get(metadata.decider) ?? 0) + 1;
+    this.deciderSequences.set(metadata.decider, deciderSequence);
+    this.streamVersions.set(streamKey(metadata.decider, metadata.streamId), metadata.streamVersion);
+
+    const stored: EventEnvelope<TEvent> = {
+      ...metadata,
+      id: this.services.ids.next(),
+      sequence: ++this.lastSequence,
+      deciderSequence,
+      recordedAt: this.services.clock.now(),
+      event,
+    };
+
+    this.events.value = [...this.events.peek(), stored];
+    return stored;
+  }
+
+  /** Current version of a stream (0 before its first event) — reactive when read in computed */
+  streamVersion(decider: string, streamId: string): number {
+    void this.events.value;
+    return this.streamVersions.get(streamKey(decider, streamId)) ?? 0;
+  }
+
+  /** Full history across all deciders */
+  readAll(): EventEnvelope[] {
+    return this.events.value;
+  }
+
+  /** History of a single decider, in order */
+  readDecider<TEvent = any>(decider: string): EventEnvelope<TEvent>[] {
+    return this.query({ decider });
+  }
+
+  query<TEvent = any>(query: EventQuery = {}): EventEnvelope<TEvent>[] {
+    const types = query.type === undefined
+      ? undefined
+      : Array.isArray(query.type) ? query.type : [query.type];
+
+    const matches = this.events.value.filter((stored) =>
+      (query.decider === undefined || stored.decider === query.decider) &&
+      (types === undefined || types.includes((stored.event as any)?.type)) &&
+      (query.fromSequence === undefined || stored.sequence >= query.fromSequence) &&
+      (query.toSequence === undefined || stored.sequence <= query.toSequence)
+    );
+
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+
+  /** Replace the whole history, e.g. with one restored from persistence */
+  load(history: EventEnvelope[]): void {
+    this.reindex([...history].sort((a, b) => a.sequence - b.sequence));
+    if (this.lastSequence > 0) {
+      this.services.ids.resume?.(this.lastSequence);
+    }
+  }
+
+  /**
+   * Remove matching events, e.g. to roll back a failed dispatch; returns what was removed.
+   * Stream versions follow what remains, but sequence numbers are never handed out again.
+   */
+  remove(predicate: (stored: EventEnvelope) => boolean): EventEnvelope[] {
+    const current = this.events.peek();
+    const removed = current.filter(predicate);
+    if (removed.length > 0) {
+      this.reindex(current.filter((stored) => !predicate(stored)), true);
+    }
+    return removed;
+  }
+
+  private reindex(ordered: EventEnvelope[], keepSequences = false): void {
+    const lastSequence = this.lastSequence;
+    const deciderSequences = new Map(this.deciderSequences);
+
+    this.deciderSequences.clear();
+    this.streamVersions.clear();
+    for (const stored of ordered) {
+      const current = this.deciderSequences.get(stored.decider) ?? 0;
+      this.deciderSequences.set(stored.decider, Math.max(current, stored.deciderSequence));
+      this.streamVersions.set(streamKey(stored.decider, stored.streamId), stored.streamVersion);
+    }
+    this.lastSequence = ordered.length > 0 ? ordered[ordered.length - 1].sequence : 0;
+
+    if (keepSequences) {
+      this.lastSequence = Math.max(this.lastSequence, lastSequence);
+      deciderSequences.forEach((sequence, decider) =>
+        this.deciderSequences.set(decider, Math.max(this.deciderSequences.get(decider) ?? 0, sequence))
+      );
+    }
+    this.events.value = ordered;
+  }
+
+  /** Drop all history and restart sequence numbering */
+  clear(): void {
+    this.lastSequence = 0;
+    this.deciderSequences.clear();
+    this.streamVersions.clear();
+    this.events.value = [];
+  }
+}
+
 // ============================================================
 // Decider
 // ============================================================
 
+/** Picks the stream (e.g. an aggregate instance id) commands and events belong to */
+export interface StreamIds<TCommand, TEvent> {
+  command: (command: TCommand) => string;
+  /** Return undefined for events that belong to no stream, e.g. DecisionFailed */
+  event: (event: TEvent) => string | undefined;
+}
+
 export interface DeciderConfig<TCommand, TState, TContext, TEvent> {
   name: string;
   initialState: TState;
   commandSchema?: z.ZodSchema<TCommand>;
-  decide: Decide<TCommand, TState, TContext, TEvent>;
+  /** May be async — such deciders are dispatched with dispatchAsync */
+  decide: Decide<TCommand, TState, TContext, TEvent> | AsyncDecide<TCommand, TState, TContext, TEvent>;
   evolve: Evolve<TState, TEvent>;
-  resolveContext: ResolveContext<TCommand, TContext>;
+  /** May be async — such deciders are dispatched with dispatchAsync */
+  resolveContext: ResolveContext<TCommand, TContext> | AsyncResolveContext<TCommand, TContext>;
+  /** Split the decider's events into streams — defaults to one stream named after the decider */
+  streamId?: StreamIds<TCommand, TEvent>;
 }
 
 export interface Decider<TCommand, TState, TEvent, TContext = any> {
@@ -134,196 +546,1611 @@ export interface Decider<TCommand, TState, TEvent, TContext = any> {
   /** Current write state — read .value in JSX, auto-re-renders */
   state: Signal<TState>;
 
-  /** Dispatch a command */
-  dispatch: (command: TCommand) => DispatchResult;
+  /** Dispatch a command — decide and resolveContext must be synchronous */
+  dispatch: (command: TCommand, options?: DispatchOptions) => DispatchResult;
+
+  /** Dispatch a command whose decide or resolveContext may be async; queued per decider */
+  dispatchAsync: (command: TCommand, options?: DispatchOptions) => Promise<DispatchResult>;
+
+  /** Number of async commands queued or running */
+  pending: ReadonlySignal<number>;
+
+  /**
+   * True when decide or resolveContext is declared async. The system then sends
+   * commands from process managers, sagas, joins and the scheduler through
+   * dispatchAsync; a plain function returning a promise is not detected.
+   */
+  isAsync: boolean;
+
+  /** Current version of a stream — defaults to the decider's own stream */
+  version: (streamId?: string) => number;
 
   /** Event bus for this decider */
   events: EventBus<TEvent>;
 
   /** Initial state for reset functionality */
   initialState: TState;
+
+  /** Every event this decider has appended to the store */
+  history: ReadonlySignal<EventEnvelope<TEvent>[]>;
+
+  /** Rebuild state by folding events through evolve, starting from initialState */
+  replay: (events: TEvent[]) => void;
+
+  /**
+   * Replace this decider's events in the store with a saved history and
+   * rebuild from it — in a System, projectors and sagas are refolded too
+   */
+  load: (history: EventEnvelope<TEvent>[]) => void;
+}
+
+/** Runtime services a decider is wired to */
+export interface DeciderRuntime {
+  /** Store every decided event is appended to — a private store is created when omitted */
+  store?: EventStore;
+
+  /** Return a reason to refuse a command before it is handled */
+  guard?: (command: unknown) => string | undefined;
+
+  /** Look up another decider's or projector's current state for resolveContext */
+  lookup?: (kind: ContextRead['kind'], name: string) => unknown;
+
+  /** Wraps each dispatch so the system can run queued follow-up commands once it completes */
+  cascade?: (run: () => DispatchResult, options?: DispatchOptions) => DispatchResult;
+
+  /** Recompute state from the store after a rolled-back publish — the system refolds projectors and sagas too */
+  restore?: () => void;
+}
+
+/** A command that passed the up-front checks and is ready to be decided */
+interface PreparedDispatch {
+  command: unknown;
+  result: DispatchResult;
+  commandId: string;
+  correlationId: string;
+  streamId: string;
+  source: string;
+  actor?: string;
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return typeof (value as any)?.then === 'function';
+}
+
+function isAsyncFunction(fn: unknown): boolean {
+  return typeof fn === 'function' && fn.constructor.name === 'AsyncFunction';
 }
 
 export function createDecider<TCommand, TState, TContext, TEvent>(
   config: DeciderConfig<TCommand, TState, TContext, TEvent>,
-  trace?: EventBus<TraceEntry>
+  trace?: EventBus<TraceEntry>,
+  runtime: DeciderRuntime = {}
 ): Decider<TCommand, TState, TEvent, TContext> {
   const state = signal<TState>(config.initialState);
   const events = new EventBus<TEvent>();
-
-  const dispatch = (command: TCommand, source = 'user'): DispatchResult => {
-    trace?.emit({ kind: 'command', timestamp: Date.now(), command, source });
+  const store = runtime.store ?? new EventStore();
+  const history = computed(() => store.readDecider<TEvent>(config.name));
+
+  const commandStream = (command: TCommand): string =>
+    config.streamId ? config.streamId.command(command) : config.name;
+
+  const version = (streamId: string = config.name): number =>
+    store.streamVersion(config.name, streamId);
+
+  /** Trace, guard, validate and check the expected version — ends early with a finished result */
+  const prepare = (
+    command: TCommand,
+    options: DispatchOptions
+  ): PreparedDispatch | DispatchResult => {
+    const source = options.source ?? 'user';
+    const { actor, causationId } = options;
+
+    // A command joins its trigger's causal chain, or starts its own
+    const commandId = store.services.ids.next();
+    const correlationId = options.correlationId ?? commandId;
+    trace?.emit({
+      kind: 'command',
+      timestamp: Date.now(),
+      command,
+      source,
+      commandId,
+      correlationId,
+      causationId,
+      actor,
+    });
 
     const commandType = (command as any).type || 'unknown';
     const result: DispatchResult = {
       success: false,
       decider: config.name,
       command: commandType,
+      commandId,
       events: []
     };
 
-    try {
-      // Validate command if schema provided
-      if (config.commandSchema) {
-        const parseResult = config.commandSchema.safeParse(command);
-        if (!parseResult.success) {
-          const validationEvent = {
-            type: 'CommandValidationFailed',
-            payload: {
-              command: commandType,
-              errors: parseResult.error.format(),
-              issues: parseResult.error.issues,
-            }
-          };
-          trace?.emit({ kind: 'event', timestamp: Date.now(), event: validationEvent, causedBy: command });
-          // Emit as a regular event so it can be handled
-          events.emit(validationEvent as TEvent);
-          
-          result.error = 'Command validation failed';
-          result.failedConstraints = parseResult.error.issues.map(i => i.path.join('.'));
-          return result;
-        }
+    const refusal = runtime.guard?.(command);
+    if (refusal) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'guard', error: refusal });
+      result.errorCode = 'Refused';
+      result.error = refusal;
+      return result;
+    }
+
+    // Validate command if schema provided
+    if (config.commandSchema) {
+      const parseResult = config.commandSchema.safeParse(command);
+      if (!parseResult.success) {
+        const validationEvent = {
+          type: 'CommandValidationFailed',
+          payload: {
+            command: commandType,
+            errors: parseResult.error.format(),
+            issues: parseResult.error.issues,
+          }
+        };
+        trace?.emit({ kind: 'event', timestamp: Date.now(), event: validationEvent, causedBy: command });
+        // Emit as a regular event so it can be handled
+        events.emit(validationEvent as TEvent);
+        
+        result.errorCode = 'ValidationFailed';
+        result.error = 'Command validation failed';
+        result.failedConstraints = parseResult.error.issues.map(i => i.path.join('.'));
+        return result;
       }
+    }
 
-      // Resolve context using the required resolveContext function
-      const resolvedCtx = config.resolveContext(command);
-      trace?.emit({ kind: 'context', timestamp: Date.now(), command, context: resolvedCtx });
+    // Optimistic concurrency: the stream must not have moved on
+    const streamId = commandStream(command);
+    if (options.expectedVersion !== undefined) {
+      const conflict = checkVersion(result, streamId, options.expectedVersion);
+      if (conflict) return conflict;
+    }
 
-      // Decide: command + state + context → Event[]
-      const resultEvents = config.decide(command, state.value, resolvedCtx);
-      
-      // Check if any event is a DecisionFailed
-      const failureEvent = resultEvents.find((event: any) => event.type === 'DecisionFailed');
-      
-      if (failureEvent) {
-        // Handle rejection - still process the DecisionFailed event through evolve
-        result.failedConstraints = (failureEvent as any).constraints || [];
-        result.error = 'Command rejected due to constraints';
-      }
+    return { command, result, commandId, correlationId, streamId, source, actor };
+  };
+
+  const checkVersion = (
+    result: DispatchResult,
+    streamId: string,
+    expectedVersion: number
+  ): DispatchResult | undefined => {
+    const actualVersion = store.streamVersion(config.name, streamId);
+    if (actualVersion === expectedVersion) return undefined;
+
+    result.errorCode = 'ConcurrencyConflict';
+    result.error = `Stream '${streamId}' is at version ${actualVersion}, expected ${expectedVersion}`;
+    result.conflict = { streamId, expectedVersion, actualVersion };
+    trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'concurrency', error: result.error });
+    return result;
+  };
+
+  /** Evolve, commit and publish the decided events */
+  const commit = (
+    { command, result, commandId, correlationId, streamId, source, actor }: PreparedDispatch,
+    resultEvents: TEvent[]
+  ): DispatchResult => {
+    // Check if any event is a DecisionFailed
+    const failureEvent = resultEvents.find((event: any) => event.type === 'DecisionFailed');
+    
+    if (failureEvent) {
+      // Handle rejection - still process the DecisionFailed event through evolve
+      result.failedConstraints = (failureEvent as any).constraints || [];
+      result.errorCode = 'DecisionFailed';
+      result.error = 'Command rejected due to constraints';
+    }
 
-      // Process each event (including DecisionFailed)
-      for (const event of resultEvents) {
-        trace?.emit({ kind: 'event', timestamp: Date.now(), event, causedBy: command });
+    // Evolve every event (including DecisionFailed) before touching anything,
+    // so a throwing evolve leaves no partial state behind
+    const steps: Array<{ event: TEvent; before: TState; after: TState }> = [];
+    let nextState = state.peek();
+    for (const event of resultEvents) {
+      const after = config.evolve(nextState, event);
+      steps.push({ event, before: nextState, after });
+      nextState = after;
+    }
+
+    // Commit: append the whole batch and apply the final state in one update
+    const envelopes = batch(() => {
+      const appended = steps.map(({ event }) => {
+        const eventStream = config.streamId?.event(event) ?? streamId;
+        const currentVersion = store.streamVersion(config.name, eventStream);
+        return store.append(event, {
+          decider: config.name,
+          streamId: eventStream,
+          streamVersion: (event as any).type === 'DecisionFailed' ? currentVersion : currentVersion + 1,
+          correlationId,
+          causationId: commandId,
+          source,
+          actor,
+        });
+      });
+      state.value = nextState;
+      return appended;
+    });
 
-        // Evolve: state + event → new state
-        const before = state.value;
-        state.value = config.evolve(before, event);
-        trace?.emit({ kind: 'evolve', timestamp: Date.now(), event, before, after: state.value });
+    // Publish only once everything is committed
+    try {
+      steps.forEach(({ event, before, after }, i) => {
+        trace?.emit({ kind: 'event', timestamp: Date.now(), event, causedBy: command, envelope: envelopes[i] });
+        trace?.emit({ kind: 'evolve', timestamp: Date.now(), event, before, after });
 
         // Push to event bus (projectors and PMs subscribe here)
-        events.emit(event);
+        events.emit(event, envelopes[i]);
 
         // Add to result
         result.events.push({
           type: (event as any).type || 'unknown',
           payload: (event as any).payload
         });
+      });
+    } catch (error: any) {
+      // A subscriber threw: take the whole batch back out. Projectors and process
+      // managers catch their own errors, so only raw bus subscribers end up here.
+      // Publishing is synchronous, so everything stored since the batch was caused
+      // by it — nested process-manager dispatches go too. Earlier subscribers have
+      // already seen the batch, so state is recomputed from what remains.
+      const firstSequence = envelopes[0].sequence;
+      batch(() => {
+        store.remove((stored) => stored.sequence >= firstSequence);
+        restore();
+      });
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'publish', error });
+      result.events = [];
+      result.failedConstraints = undefined;
+      result.errorCode = 'PublishFailed';
+      result.error = `Rolled back: subscriber failed (${error?.message || 'Unknown error'})`;
+      return result;
+    }
+
+    result.streamId = streamId;
+    result.version = store.streamVersion(config.name, streamId);
+    result.success = !failureEvent;
+    return result;
+  };
+
+  /** A SystemView that records every read into `reads` */
+  const recordingView = (reads: ContextRead[]): SystemView => {
+    const read = (kind: ContextRead['kind'], name: string): any => {
+      if (!runtime.lookup) {
+        throw new Error(`Cannot read ${kind} '${name}': decider '${config.name}' is not part of a System`);
       }
+      reads.push({ kind, name });
+      return runtime.lookup(kind, name);
+    };
+    return {
+      ...store.services,
+      decider: (name) => read('decider', name),
+      projector: (name) => read('projector', name),
+    };
+  };
 
-      result.success = !failureEvent;
-      return result;
+  const fail = (result: DispatchResult, error: any): DispatchResult => {
+    trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'dispatch', error });
+    result.errorCode = 'Exception';
+    result.error = error?.message || 'Unknown error';
+    return result;
+  };
+
+  const cascade = runtime.cascade ?? ((run: () => DispatchResult) => run());
+
+  const restore =
+    runtime.restore ?? (() => replay(store.readDecider<TEvent>(config.name).map((stored) => stored.event)));
+
+  const dispatch = (command: TCommand, options: DispatchOptions = {}): DispatchResult =>
+    cascade(() => dispatchNow(command, options), options);
+
+  const dispatchNow = (command: TCommand, options: DispatchOptions): DispatchResult => {
+    const prepared = prepare(command, options);
+    if (!('correlationId' in prepared)) return prepared;
+    const { result } = prepared;
+
+    try {
+      // Resolve context using the required resolveContext function
+      const reads: ContextRead[] = [];
+      const resolvedCtx = config.resolveContext(command, recordingView(reads));
+      if (isPromiseLike(resolvedCtx)) {
+        return requireAsync(result, 'resolveContext', resolvedCtx);
+      }
+      trace?.emit({ kind: 'context', timestamp: Date.now(), command, context: resolvedCtx, reads });
+
+      // Decide: command + state + context → Event[]
+      const resultEvents = config.decide(command, state.value, resolvedCtx);
+      if (isPromiseLike(resultEvents)) {
+        return requireAsync(result, 'decide', resultEvents);
+      }
+
+      return commit(prepared, resultEvents);
     } catch (error: any) {
-      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'dispatch', error });
-      result.error = error.message || 'Unknown error';
-      return result;
+      return fail(result, error);
+    }
+  };
+
+  const requireAsync = (result: DispatchResult, step: string, abandoned: PromiseLike<unknown>): DispatchResult => {
+    // Nothing waits for the promise — keep a rejection from going unhandled
+    Promise.resolve(abandoned).catch(() => {});
+    result.errorCode = 'AsyncRequired';
+    result.error = `${config.name}.${step} returned a promise — use dispatchAsync`;
+    trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'dispatch', error: result.error });
+    return result;
+  };
+
+  // Async commands run one at a time, in the order they were dispatched
+  let queue: Promise<unknown> = Promise.resolve();
+  const pending = signal(0);
+
+  const runAsync = async (command: TCommand, options: DispatchOptions): Promise<DispatchResult> => {
+    const prepared = prepare(command, options);
+    if (!('correlationId' in prepared)) return prepared;
+    const { result, streamId } = prepared;
+
+    try {
+      const reads: ContextRead[] = [];
+      const resolvedCtx = await config.resolveContext(command, recordingView(reads));
+      trace?.emit({ kind: 'context', timestamp: Date.now(), command, context: resolvedCtx, reads });
+
+      const versionAtDecide = store.streamVersion(config.name, streamId);
+      const resultEvents = await config.decide(command, state.peek(), resolvedCtx);
+
+      // A synchronous dispatch may have moved the stream while decide was awaited
+      const conflict = checkVersion(result, streamId, versionAtDecide);
+      if (conflict) return conflict;
+
+      return cascade(() => commit(prepared, resultEvents), options);
+    } catch (error: any) {
+      return fail(result, error);
+    }
+  };
+
+  const dispatchAsync = (command: TCommand, options: DispatchOptions = {}): Promise<DispatchResult> => {
+    pending.value++;
+    const run = queue.then(() => runAsync(command, options));
+    queue = run.finally(() => pending.value--);
+    return run;
+  };
+
+  const replay = (history: TEvent[]): void => {
+    try {
+      state.value = history.reduce((acc, event) => config.evolve(acc, event), config.initialState);
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'replay', error });
+      throw error;
     }
   };
 
-  return { name: config.name, state, dispatch, events, initialState: config.initialState };
+  const load = (saved: EventEnvelope<TEvent>[]): void => {
+    const others = store.events.peek().filter((stored) => stored.decider !== config.name);
+    batch(() => {
+      store.load([...others, ...saved.filter((stored) => stored.decider === config.name)]);
+      restore();
+    });
+  };
+
+  return {
+    name: config.name,
+    state,
+    dispatch,
+    dispatchAsync,
+    pending,
+    isAsync: isAsyncFunction(config.decide) || isAsyncFunction(config.resolveContext),
+    version,
+    events,
+    initialState: config.initialState,
+    history,
+    replay,
+    load,
+  };
+}
+
+// ============================================================
+// Aggregate Decider — one stream per aggregate instance
+// ============================================================
+
+export interface AggregateInstance<TState> {
+  id: string;
+  state: TState;
+  /** Stream version of this instance — rejections (DecisionFailed) do not count */
+  version: number;
+}
+
+export type AggregateState<TState> = Record<string, AggregateInstance<TState>>;
+
+/**
+ * Like DeciderConfig, but decide and evolve work on a single instance's state.
+ * The runtime looks the instance up by stream id, so deciders no longer
+ * hand-roll a Record<EntityId, X> map.
+ */
+export interface AggregateDeciderConfig<TCommand, TState, TContext, TEvent> {
+  name: string;
+  /** State of an instance before its first event — decide sees this for new instances */
+  initialState: TState;
+  streamId: StreamIds<TCommand, TEvent>;
+  commandSchema?: z.ZodSchema<TCommand>;
+  /** May be async — such deciders are dispatched with dispatchAsync */
+  decide: Decide<TCommand, TState, TContext, TEvent> | AsyncDecide<TCommand, TState, TContext, TEvent>;
+  evolve: Evolve<TState, TEvent>;
+  /** May be async — such deciders are dispatched with dispatchAsync */
+  resolveContext: ResolveContext<TCommand, TContext> | AsyncResolveContext<TCommand, TContext>;
+}
+
+export interface AggregateDecider<TCommand, TState, TEvent, TContext = any>
+  extends Decider<TCommand, AggregateState<TState>, TEvent, TContext> {
+  /** Derived signal for one instance — undefined until its first event */
+  instance: (id: string) => ReadonlySignal<AggregateInstance<TState> | undefined>;
+}
+
+/** Wrap an aggregate config as a decider whose state is the map of instances */
+function toInstanceMapConfig<TCommand, TState, TContext, TEvent>(
+  config: AggregateDeciderConfig<TCommand, TState, TContext, TEvent>
+): DeciderConfig<TCommand, AggregateState<TState>, TContext, TEvent> {
+  return {
+    name: config.name,
+    initialState: {},
+    commandSchema: config.commandSchema,
+    resolveContext: config.resolveContext,
+    streamId: config.streamId,
+
+    decide: (command, instances, context) => {
+      const instance = instances[config.streamId.command(command)];
+      // A promise from an async decide passes straight through to dispatchAsync
+      const decide = config.decide as Decide<TCommand, TState, TContext, TEvent>;
+      return decide(command, instance ? instance.state : config.initialState, context);
+    },
+
+    evolve: (instances, event) => {
+      const id = config.streamId.event(event);
+      if (id === undefined) return instances;
+
+      const current = instances[id];
+      return {
+        ...instances,
+        [id]: {
+          id,
+          state: config.evolve(current ? current.state : config.initialState, event),
+          // Rejections leave the stream version unchanged, as commit does
+          version: (current?.version ?? 0) + ((event as any)?.type === 'DecisionFailed' ? 0 : 1),
+        },
+      };
+    },
+  };
+}
+
+export function createAggregateDecider<TCommand, TState, TContext, TEvent>(
+  config: AggregateDeciderConfig<TCommand, TState, TContext, TEvent>,
+  trace?: EventBus<TraceEntry>,
+  runtime: DeciderRuntime = {}
+): AggregateDecider<TCommand, TState, TEvent, TContext> {
+  const decider = createDecider(toInstanceMapConfig(config), trace, runtime);
+  const instance = (id: string) => computed(() => decider.state.value[id]);
+  // decide is wrapped above, so look at the one the config declared
+  const isAsync = isAsyncFunction(config.decide) || isAsyncFunction(config.resolveContext);
+  return { ...decider, isAsync, instance };
 }
 
 // ============================================================
 // Projector — computed read model from events
 // ============================================================
 
-export interface ProjectorConfig<TReadState, TEvent> {
-  name: string;
-  initialState: TReadState;
-  project: Project<TReadState, TEvent>;
+export interface ProjectorConfig<TReadState, TEvent> {
+  name: string;
+  initialState: TReadState;
+  project: Project<TReadState, TEvent>;
+}
+
+export interface Projector<TReadState> {
+  name: string;
+  /** Read state — use .value in JSX, auto-re-renders */
+  state: Signal<TReadState>;
+  destroy: Unsubscribe;
+}
+
+export function createProjector<TReadState, TEvent>(
+  config: ProjectorConfig<TReadState, TEvent>,
+  events: EventBus<TEvent>,
+  trace?: EventBus<TraceEntry>,
+  services: SystemServices = defaultServices
+): Projector<TReadState> {
+  const state = signal<TReadState>(config.initialState);
+
+  const unsub = events.subscribe((event, envelope) => {
+    try {
+      state.value = config.project(state.value, event, envelope, eventServices(envelope, services));
+      trace?.emit({ kind: 'projection', timestamp: Date.now(), projector: config.name, event });
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'project', error });
+    }
+  });
+
+  return { name: config.name, state, destroy: unsub };
+}
+
+// ============================================================
+// Process Manager — reacts to events, emits commands
+// ============================================================
+
+/**
+ * How a process manager hands commands to the system. The result is reported
+ * through onResult once the command has run — possibly after the current
+ * dispatch, in run-to-completion mode — and is also returned when it ran straight away.
+ */
+export type ProcessManagerDispatch<TCommand> = (
+  command: TCommand,
+  options: DispatchOptions,
+  envelope?: EventEnvelope,
+  onResult?: (result: DispatchResult) => void
+) => DispatchResult | void;
+
+/** What became of a command a process manager issued */
+export interface ProcessManagerOutcome<TEvent, TCommand> {
+  command: TCommand;
+  result: DispatchResult;
+  trigger: TEvent;
+  envelope?: EventEnvelope;
+  /** 1 for commands returned by react, one more for each onResult follow-up */
+  attempt: number;
+}
+
+export interface ProcessManagerConfig<TEvent, TCommand> {
+  name: string;
+  filter: (event: TEvent, envelope?: EventEnvelope) => boolean;
+  react: React<TEvent, TCommand>;
+  /**
+   * Called with the result of each command the manager issued. Return
+   * follow-up commands to retry, escalate or compensate — use the attempt
+   * count to stop retrying.
+   */
+  onResult?: (outcome: ProcessManagerOutcome<TEvent, TCommand>, services: SystemServices) => TCommand[];
+}
+
+/**
+ * Commands are dispatched with the manager as their source, joined to the
+ * trigger's causal chain. targetDispatch may return nothing when the system
+ * queues the command instead of running it straight away (run-to-completion mode).
+ * Failed results, and every result when the manager has onResult, are traced
+ * together with the triggering event.
+ */
+export function createProcessManager<TEvent, TCommand>(
+  config: ProcessManagerConfig<TEvent, TCommand>,
+  sourceEvents: EventBus<TEvent>,
+  targetDispatch: ProcessManagerDispatch<TCommand>,
+  trace?: EventBus<TraceEntry>,
+  services: SystemServices = defaultServices
+): Unsubscribe {
+  return sourceEvents.subscribe((event, envelope) => {
+    if (!config.filter(event, envelope)) return;
+
+    try {
+      const commands = config.react(event, envelope, services);
+      trace?.emit({
+        kind: 'process-manager',
+        timestamp: Date.now(),
+        manager: config.name,
+        trigger: event,
+        commands,
+      });
+
+      const options: DispatchOptions = {
+        source: config.name,
+        correlationId: envelope?.correlationId,
+        causationId: envelope?.id,
+        actor: envelope?.actor,
+      };
+
+      const issue = (command: TCommand, attempt: number) =>
+        targetDispatch(command, options, envelope, (result) => {
+          if (result.success && !config.onResult) return;
+
+          try {
+            const followUps =
+              config.onResult?.({ command, result, trigger: event, envelope, attempt }, services) ?? [];
+            trace?.emit({
+              kind: 'process-manager-result',
+              timestamp: Date.now(),
+              manager: config.name,
+              command,
+              result,
+              trigger: event,
+              triggerId: envelope?.id,
+              attempt,
+              commands: followUps,
+            });
+            for (const followUp of followUps) {
+              issue(followUp, attempt + 1);
+            }
+          } catch (error) {
+            trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'process-manager', error });
+          }
+        });
+
+      for (const command of commands) {
+        issue(command, 1);
+      }
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'process-manager', error });
+    }
+  });
+}
+
+// ============================================================
+// Saga — stateful process manager, one instance per correlation
+// ============================================================
+
+export interface SagaInstance<TState> {
+  id: string;
+  state: TState;
+  /** Number of events the instance has observed */
+  version: number;
+}
+
+export type SagaInstances<TState> = Record<string, SagaInstance<TState>>;
+
+export interface SagaConfig<TEvent, TCommand, TState> {
+  name: string;
+  initialState: TState;
+  /**
+   * Key of the instance an event belongs to — defaults to the envelope's
+   * correlationId. Return undefined to ignore the event.
+   */
+  correlate?: (event: TEvent, envelope?: EventEnvelope) => string | undefined;
+  evolve: (state: TState, event: TEvent, envelope?: EventEnvelope) => TState;
+  /** Called with the instance state after the event has been evolved in */
+  react: (
+    state: TState,
+    event: TEvent,
+    envelope: EventEnvelope | undefined,
+    services: SystemServices
+  ) => TCommand[];
+  /** Finished instances are dropped once they have reacted */
+  isComplete?: (state: TState) => boolean;
+  /**
+   * Command that undoes a step which succeeded — return undefined when there
+   * is nothing to undo. When a later command of the same instance is rejected
+   * with DecisionFailed, the registered compensations are dispatched newest
+   * first and the instance is dropped.
+   */
+  compensate?: (command: TCommand, result: DispatchResult, state: TState) => TCommand | undefined;
+}
+
+export interface Saga<TState, TEvent = any> {
+  name: string;
+  /** Running instances by correlation key — use .value in JSX */
+  instances: Signal<SagaInstances<TState>>;
+  /** Rebuild instances from past events without reacting to them */
+  replay(events: Array<{ event: TEvent; envelope?: EventEnvelope }>): void;
+  reset(): void;
+  destroy: Unsubscribe;
+}
+
+/** Default saga key: events share an instance when they share a causal chain */
+function byCorrelationId(_event: unknown, envelope?: EventEnvelope): string | undefined {
+  return envelope?.correlationId;
+}
+
+export function createSaga<TEvent, TCommand, TState>(
+  config: SagaConfig<TEvent, TCommand, TState>,
+  sourceEvents: EventBus<TEvent>,
+  targetDispatch: ProcessManagerDispatch<TCommand>,
+  trace?: EventBus<TraceEntry>,
+  services: SystemServices = defaultServices
+): Saga<TState, TEvent> {
+  const instances = signal<SagaInstances<TState>>({});
+  const correlate = config.correlate ?? byCorrelationId;
+
+  /** Fold one event into its instance, returning the updated instance */
+  const apply = (
+    current: SagaInstances<TState>,
+    id: string,
+    event: TEvent,
+    envelope?: EventEnvelope
+  ): SagaInstance<TState> => {
+    const previous = current[id] ?? { id, state: config.initialState, version: 0 };
+    return {
+      id,
+      state: config.evolve(previous.state, event, envelope),
+      version: previous.version + 1,
+    };
+  };
+
+  const without = (current: SagaInstances<TState>, id: string): SagaInstances<TState> => {
+    const { [id]: _done, ...rest } = current;
+    return rest;
+  };
+
+  /**
+   * Compensations registered by each instance's successful steps. Kept apart
+   * from the instances so a step that fails after its instance completed can
+   * still roll back; an entry goes once the instance is done and settled.
+   */
+  const steps = new Map<string, { compensations: TCommand[]; outstanding: number; done: boolean }>();
+
+  const settle = (id: string) => {
+    const entry = steps.get(id);
+    if (entry && entry.done && entry.outstanding === 0) steps.delete(id);
+  };
+
+  const rollBack = (id: string, failed: DispatchResult, options: DispatchOptions) => {
+    const compensations = [...(steps.get(id)?.compensations ?? [])].reverse();
+    steps.delete(id);
+    instances.value = without(instances.value, id);
+
+    trace?.emit({
+      kind: 'compensation',
+      timestamp: Date.now(),
+      saga: config.name,
+      instance: id,
+      failed,
+      commands: compensations,
+    });
+    for (const command of compensations) {
+      targetDispatch(command, { ...options, causationId: failed.commandId });
+    }
+  };
+
+  const onResult = (id: string, command: TCommand, options: DispatchOptions) => (result: DispatchResult) => {
+    const entry = steps.get(id);
+    if (!entry) return;
+    entry.outstanding--;
+
+    try {
+      if (result.errorCode === 'DecisionFailed') {
+        rollBack(id, result, options);
+        return;
+      }
+      if (result.success) {
+        const compensation = config.compensate?.(
+          command,
+          result,
+          instances.peek()[id]?.state ?? config.initialState
+        );
+        if (compensation !== undefined) entry.compensations.push(compensation);
+      }
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'saga', error });
+    }
+    settle(id);
+  };
+
+  const unsub = sourceEvents.subscribe((event, envelope) => {
+    try {
+      const id = correlate(event, envelope);
+      if (id === undefined) return;
+
+      const instance = apply(instances.value, id, event, envelope);
+      instances.value = { ...instances.value, [id]: instance };
+
+      const commands = config.react(instance.state, event, envelope, services);
+      trace?.emit({
+        kind: 'process-manager',
+        timestamp: Date.now(),
+        manager: config.name,
+        trigger: event,
+        commands,
+        instance: id,
+      });
+
+      const entry = steps.get(id) ?? { compensations: [], outstanding: 0, done: false };
+      steps.set(id, entry);
+      if (config.isComplete?.(instance.state)) {
+        instances.value = without(instances.value, id);
+        entry.done = true;
+      }
+
+      const options: DispatchOptions = {
+        source: config.name,
+        correlationId: envelope?.correlationId,
+        causationId: envelope?.id,
+        actor: envelope?.actor,
+      };
+      for (const command of commands) {
+        if (!steps.has(id)) break; // rolled back by an earlier command
+        entry.outstanding++;
+        targetDispatch(command, options, envelope, onResult(id, command, options));
+      }
+      settle(id);
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'saga', error });
+    }
+  });
+
+  const replay = (events: Array<{ event: TEvent; envelope?: EventEnvelope }>) => {
+    let current: SagaInstances<TState> = {};
+    for (const { event, envelope } of events) {
+      const id = correlate(event, envelope);
+      if (id === undefined) continue;
+
+      const instance = apply(current, id, event, envelope);
+      current = config.isComplete?.(instance.state)
+        ? without(current, id)
+        : { ...current, [id]: instance };
+    }
+    instances.value = current;
+  };
+
+  return {
+    name: config.name,
+    instances,
+    replay,
+    reset: () => {
+      steps.clear();
+      instances.value = {};
+    },
+    destroy: unsub,
+  };
+}
+
+// ============================================================
+// Join — wait for ALL or ANY of several events per correlation
+// ============================================================
+
+export interface JoinState<TEvent> {
+  /** Awaited events seen so far, by event type */
+  received: Partial<Record<string, TEvent>>;
+  /** The event that completed the join — set once it has fired, after which its key ignores further events */
+  completedBy?: TEvent;
+}
+
+export interface JoinConfig<TEvent, TCommand> {
+  name: string;
+  /** 'all' waits for every listed event type, 'any' fires on the first of them */
+  mode: 'all' | 'any';
+  /** Event types to wait for — anything else is ignored */
+  events: string[];
+  /** Key the events are joined on — defaults to the envelope's correlationId */
+  correlate?: (event: TEvent, envelope?: EventEnvelope) => string | undefined;
+  react: (
+    received: Partial<Record<string, TEvent>>,
+    key: string,
+    services: SystemServices
+  ) => TCommand[];
+  /**
+   * Give up on a join that has not completed within `ms` of its first event.
+   * The pending instance is dropped and `react` (if given) sees what did arrive.
+   */
+  timeout?: {
+    ms: number;
+    react?: (
+      received: Partial<Record<string, TEvent>>,
+      key: string,
+      services: SystemServices
+    ) => TCommand[];
+  };
+}
+
+/**
+ * Express a join as a saga over JoinState. A completed join stays among the
+ * instances as a marker, so each key fires once however many events follow.
+ */
+export function joinSaga<TEvent, TCommand>(
+  config: JoinConfig<TEvent, TCommand>
+): SagaConfig<TEvent, TCommand, JoinState<TEvent>> {
+  const correlate = config.correlate ?? byCorrelationId;
+  const isSatisfied = (received: JoinState<TEvent>['received']) =>
+    config.mode === 'all'
+      ? config.events.every((type) => type in received)
+      : config.events.some((type) => type in received);
+
+  return {
+    name: config.name,
+    initialState: { received: {} },
+    correlate: (event, envelope) =>
+      config.events.includes((event as any)?.type) ? correlate(event, envelope) : undefined,
+    // The first event of each type is the one that counts
+    evolve: (state, event) => {
+      const type = (event as any).type;
+      if (state.completedBy !== undefined || type in state.received) return state;
+
+      const received = { ...state.received, [type]: event };
+      return isSatisfied(received) ? { received, completedBy: event } : { received };
+    },
+    react: (state, event, envelope, services) =>
+      state.completedBy === event
+        ? config.react(state.received, correlate(event, envelope)!, services)
+        : [],
+  };
+}
+
+/**
+ * A saga built from joinSaga, plus a deadline per pending instance when the
+ * join has a timeout. Deadlines are checked on each tick of `ticks` (the
+ * system's virtual clock) — without it, wall-clock timers check instead.
+ * Replays re-arm deadlines from the envelopes' recordedAt; a rebuilt join
+ * whose deadline has already passed is taken as timed out in an earlier session.
+ */
+export function createJoin<TEvent, TCommand>(
+  config: JoinConfig<TEvent, TCommand>,
+  sourceEvents: EventBus<TEvent>,
+  targetDispatch: ProcessManagerDispatch<TCommand>,
+  trace?: EventBus<TraceEntry>,
+  services: SystemServices = defaultServices,
+  ticks?: EventBus<number>,
+  isPaused: () => boolean = () => false
+): Saga<JoinState<TEvent>, TEvent> {
+  const sagaConfig = joinSaga(config);
+  const saga = createSaga(sagaConfig, sourceEvents, targetDispatch, trace, services);
+  const timeout = config.timeout;
+  if (!timeout) return saga;
+
+  /** When each pending join gives up, and the event that opened it */
+  const deadlines = new Map<string, { dueAt: number; envelope?: EventEnvelope }>();
+  /** Keys that gave up — history still holds their events, so replays would rebuild them */
+  const expired = new Set<string>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const isPending = (key: string) => {
+    const instance = saga.instances.peek()[key];
+    return instance !== undefined && instance.state.completedBy === undefined;
+  };
+
+  const drop = (key: string) => {
+    const { [key]: _expired, ...rest } = saga.instances.peek();
+    saga.instances.value = rest;
+  };
+
+  const expire = (key: string, envelope?: EventEnvelope) => {
+    deadlines.delete(key);
+    const instance = saga.instances.peek()[key];
+    if (!instance) return;
+
+    drop(key);
+    expired.add(key);
+
+    try {
+      const commands = timeout.react?.(instance.state.received, key, services) ?? [];
+      trace?.emit({
+        kind: 'process-manager',
+        timestamp: Date.now(),
+        manager: config.name,
+        trigger: { type: 'JoinTimedOut', key, received: instance.state.received },
+        commands,
+        instance: key,
+      });
+
+      const options: DispatchOptions = {
+        source: config.name,
+        correlationId: envelope?.correlationId,
+        causationId: envelope?.id,
+        actor: envelope?.actor,
+      };
+      for (const command of commands) {
+        targetDispatch(command, options, envelope);
+      }
+    } catch (error) {
+      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'saga', error });
+    }
+  };
+
+  const expireDue = () => {
+    if (isPaused()) return;
+    const now = services.clock.now();
+    for (const [key, { dueAt, envelope }] of [...deadlines]) {
+      if (dueAt <= now) expire(key, envelope);
+    }
+  };
+
+  const arm = (key: string, envelope?: EventEnvelope) => {
+    const dueAt = (envelope?.recordedAt ?? services.clock.now()) + timeout.ms;
+    deadlines.set(key, { dueAt, envelope });
+    if (!ticks) {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        expireDue();
+      }, Math.max(0, dueAt - services.clock.now()));
+      timers.add(timer);
+    }
+  };
+
+  // Subscribed after the saga, so instances already reflect the event
+  const unsub = sourceEvents.subscribe((event, envelope) => {
+    const key = sagaConfig.correlate!(event, envelope);
+    if (key === undefined) return;
+
+    const pending = isPending(key);
+    if (pending && !deadlines.has(key)) {
+      expired.delete(key);
+      arm(key, envelope);
+    } else if (!pending) {
+      deadlines.delete(key);
+    }
+  });
+  const unsubTicks = ticks?.subscribe(expireDue);
+
+  const replay = (events: Array<{ event: TEvent; envelope?: EventEnvelope }>) => {
+    saga.replay(events);
+    // A past state is only being shown: keep the live deadlines for the return to head
+    if (isPaused()) return;
+
+    const opened = new Map<string, EventEnvelope | undefined>();
+    for (const { event, envelope } of events) {
+      const key = sagaConfig.correlate!(event, envelope);
+      if (key !== undefined && !opened.has(key)) opened.set(key, envelope);
+    }
+
+    const now = services.clock.now();
+    for (const key of Object.keys(saga.instances.peek())) {
+      if (!isPending(key) || deadlines.has(key)) continue;
+      if (expired.has(key)) {
+        drop(key);
+        continue;
+      }
+      const envelope = opened.get(key);
+      if ((envelope?.recordedAt ?? now) + timeout.ms <= now) drop(key);
+      else arm(key, envelope);
+    }
+    for (const key of [...deadlines.keys()]) {
+      if (!isPending(key)) deadlines.delete(key);
+    }
+
+    // Deadlines that passed while the system was paused fire once replay is over
+    queueMicrotask(expireDue);
+  };
+
+  const clearTimers = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    deadlines.clear();
+    expired.clear();
+  };
+
+  return {
+    ...saga,
+    replay,
+    reset: () => {
+      clearTimers();
+      saga.reset();
+    },
+    destroy: () => {
+      clearTimers();
+      unsub();
+      unsubTicks?.();
+      saga.destroy();
+    },
+  };
+}
+
+// ============================================================
+// Time Travel — step the whole system through history
+// ============================================================
+
+/**
+ * Moves every decider and projector to the state as of a given event sequence
+ * and back to head. Nothing is re-published while travelling, and dispatch is
+ * refused until the system returns to head.
+ *
+ * const { timeTravel } = system;
+ * timeTravel.goTo(12);      // state as of event #12
+ * timeTravel.stepBack();    // state as of the previous event
+ * timeTravel.returnToHead();
+ */
+export class TimeTravel {
+  /** Sequence currently shown, or null when following the head of history */
+  readonly position = signal<number | null>(null);
+
+  /** True while showing a past state — read in JSX to show a banner */
+  readonly isTraveling = computed(() => this.position.value !== null);
+
+  private returnHandlers = new Set<() => void>();
+
+  constructor(
+    private store: EventStore,
+    private restore: (sequence: number) => void,
+    private trace?: EventBus<TraceEntry>
+  ) {}
+
+  /** Run a handler each time the system returns to head, once the latest state is restored */
+  onReturnToHead(handler: () => void): Unsubscribe {
+    this.returnHandlers.add(handler);
+    return () => this.returnHandlers.delete(handler);
+  }
+
+  /** Show the state as of the event with this sequence (0 = before any event) */
+  goTo(sequence: number): void {
+    const head = this.store.head;
+    if (sequence >= head) {
+      this.returnToHead();
+      return;
+    }
+
+    const target = Math.max(0, sequence);
+    // Position first, so anything restored can tell a past state is being shown
+    batch(() => {
+      this.position.value = target;
+      this.restore(target);
+    });
+    this.trace?.emit({ kind: 'time-travel', timestamp: Date.now(), position: target });
+  }
+
+  /** Step to just before the currently shown event */
+  stepBack(): void {
+    const current = this.position.peek() ?? this.store.head;
+    const previous = this.store.query({ toSequence: current - 1 }).pop();
+    this.goTo(previous?.sequence ?? 0);
+  }
+
+  /** Step to the next event in history */
+  stepForward(): void {
+    const current = this.position.peek();
+    if (current === null) return;
+
+    const [next] = this.store.query({ fromSequence: current + 1, limit: 1 });
+    this.goTo(next?.sequence ?? this.store.head);
+  }
+
+  /** Show the latest state again and re-enable dispatch */
+  returnToHead(): void {
+    if (this.position.peek() === null) return;
+
+    batch(() => {
+      this.position.value = null;
+      this.restore(this.store.head);
+    });
+    this.trace?.emit({ kind: 'time-travel', timestamp: Date.now(), position: null });
+    this.returnHandlers.forEach((handler) => handler());
+  }
+}
+
+// ============================================================
+// Scheduler — virtual clock and delayed commands
+// ============================================================
+
+/**
+ * Time as the prototype sees it. Without a start time it follows the wall
+ * clock, shifted by however far it has been advanced; with one it stands
+ * still until told to move. Either way deadlines can be fast-forwarded from
+ * the UI instead of waited out.
+ */
+export class VirtualClock implements Clock {
+  /** Virtual time as of the last advance or set — read in JSX; now() is current */
+  readonly time: Signal<number>;
+
+  /** Emits the new time whenever the clock is advanced or set */
+  readonly ticks = new EventBus<number>();
+
+  /** Added to wall time while following it — undefined for a fixed clock */
+  private offset: number | undefined;
+
+  constructor(start?: number) {
+    this.offset = start === undefined ? 0 : undefined;
+    this.time = signal(start ?? Date.now());
+  }
+
+  now(): number {
+    return this.offset === undefined ? this.time.peek() : Date.now() + this.offset;
+  }
+
+  advance(ms: number): void {
+    this.set(this.now() + ms);
+  }
+
+  set(time: number): void {
+    if (this.offset !== undefined) this.offset = time - Date.now();
+    this.time.value = time;
+    this.ticks.emit(time);
+  }
+}
+
+export interface ScheduledCommand {
+  id: string;
+  /** Decider the command is dispatched to */
+  target: string;
+  command: any;
+  /** Virtual time at which the command fires */
+  dueAt: number;
+  scheduledAt: number;
+  source: string;
+  correlationId?: string;
+  causationId?: string;
+  actor?: string;
+}
+
+export interface ScheduleOptions extends Omit<DispatchOptions, 'expectedVersion'> {
+  /** Fire this many ms after the current virtual time */
+  delay?: number;
+  /** Fire at this virtual time — takes precedence over delay */
+  at?: number;
+}
+
+/**
+ * Holds commands until the virtual clock reaches their due time. Due commands
+ * fire in due order on each clock tick; commands scheduled while firing wait
+ * for the next tick.
+ */
+export class Scheduler {
+  /** Commands waiting to fire, earliest first — read in JSX */
+  readonly pending = signal<ScheduledCommand[]>([]);
+
+  constructor(
+    private clock: VirtualClock,
+    private ids: IdGenerator,
+    private fire: (item: ScheduledCommand) => DispatchResult | Promise<DispatchResult>,
+    private trace?: EventBus<TraceEntry>,
+    private isPaused: () => boolean = () => false
+  ) {}
+
+  schedule(target: string, command: any, options: ScheduleOptions = {}): ScheduledCommand {
+    const now = this.clock.now();
+    const item: ScheduledCommand = {
+      id: this.ids.next(),
+      target,
+      command,
+      dueAt: options.at ?? now + (options.delay ?? 0),
+      scheduledAt: now,
+      source: options.source ?? 'user',
+      correlationId: options.correlationId,
+      causationId: options.causationId,
+      actor: options.actor,
+    };
+
+    this.load([...this.pending.peek(), item]);
+    this.trace?.emit({ kind: 'schedule', timestamp: Date.now(), action: 'scheduled', item });
+    return item;
+  }
+
+  /** Drop a pending command; returns false if it already fired or never existed */
+  cancel(id: string): boolean {
+    const item = this.pending.peek().find((pending) => pending.id === id);
+    if (!item) return false;
+
+    this.pending.value = this.pending.peek().filter((pending) => pending !== item);
+    this.trace?.emit({ kind: 'schedule', timestamp: Date.now(), action: 'cancelled', item });
+    return true;
+  }
+
+  /** Fire every command due at the current virtual time — async targets resolve later */
+  runDue(): Array<DispatchResult | Promise<DispatchResult>> {
+    if (this.isPaused()) return [];
+
+    const now = this.clock.now();
+    const due = this.pending.peek().filter((item) => item.dueAt <= now);
+    if (due.length === 0) return [];
+
+    this.pending.value = this.pending.peek().filter((item) => item.dueAt > now);
+    return due.map((item) => {
+      this.trace?.emit({ kind: 'schedule', timestamp: Date.now(), action: 'fired', item });
+      return this.fire(item);
+    });
+  }
+
+  /** Replace the pending commands, e.g. with ones restored from persistence */
+  load(items: ScheduledCommand[]): void {
+    this.pending.value = [...items].sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  clear(): void {
+    this.pending.value = [];
+  }
+}
+
+// ============================================================
+// Effects — outbox-style side effects recorded as events
+// ============================================================
+
+/** Runs a side effect — send the email, call the provider — and returns its result */
+export type EffectHandler<TRequest = any, TResult = any> = (
+  request: TRequest,
+  services: SystemServices
+) => TResult | Promise<TResult>;
+
+export type EffectStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface EffectRecord<TRequest = any, TResult = any> {
+  id: string;
+  request: TRequest;
+  status: EffectStatus;
+  requestedAt: number;
+  /** Envelope id of the event that asked for the effect */
+  triggeredBy?: string;
+  /** Causal chain of that event, carried on to the outcome */
+  correlationId?: string;
+  result?: TResult;
+  error?: string;
+}
+
+/** Every effect of one kind, by id */
+export type EffectOutbox<TRequest = any, TResult = any> = Record<string, EffectRecord<TRequest, TResult>>;
+
+export type EffectCommand<TRequest = any, TResult = any> =
+  | {
+      type: 'RequestEffect';
+      payload: { id: string; request: TRequest; triggeredBy?: string; correlationId?: string };
+    }
+  | { type: 'CompleteEffect'; payload: { id: string; result: TResult } }
+  | { type: 'FailEffect'; payload: { id: string; error: string } };
+
+export type EffectEvent<TRequest = any, TResult = any> =
+  | {
+      type: 'EffectRequested';
+      payload: {
+        id: string;
+        request: TRequest;
+        requestedAt: number;
+        triggeredBy?: string;
+        correlationId?: string;
+      };
+    }
+  | { type: 'EffectSucceeded'; payload: { id: string; result: TResult } }
+  | { type: 'EffectFailed'; payload: { id: string; error: string } }
+  | { type: 'DecisionFailed'; command: string; constraints: string[] };
+
+export interface EffectConfig<TEvent, TRequest = any, TResult = any> {
+  /** Name of the effect — also the name of the decider recording it */
+  name: string;
+  /** The request an event calls for, or undefined when it needs no effect */
+  request: (event: TEvent, envelope: EventEnvelope | undefined, services: SystemServices) => TRequest | undefined;
+  /** Handler to start with — usually a local mock, swapped for a real one with useHandler */
+  handler?: EffectHandler<TRequest, TResult>;
+}
+
+/** A decider holding the outbox of one kind of effect, plus the handler that runs them */
+export interface Effect<TRequest = any, TResult = any>
+  extends Decider<EffectCommand<TRequest, TResult>, EffectOutbox<TRequest, TResult>, EffectEvent<TRequest, TResult>> {
+  /** Effects requested but not yet completed — read in JSX */
+  pendingEffects: ReadonlySignal<EffectRecord<TRequest, TResult>[]>;
+  /** Replace the handler, e.g. swap the mock for a real integration */
+  useHandler(handler: EffectHandler<TRequest, TResult>): void;
+  /** Run the handler again for every pending effect, e.g. after a reload */
+  retryPending(): Promise<void>;
+}
+
+/** Echoes the request back after a tick — the default handler for prototypes */
+export function mockEffectHandler<TRequest, TResult = { mocked: true; request: TRequest }>(
+  respond: (request: TRequest) => TResult = (request) => ({ mocked: true, request }) as TResult
+): EffectHandler<TRequest, TResult> {
+  return (request) => Promise.resolve().then(() => respond(request));
+}
+
+/** The decider that records an effect's lifecycle; effects are their own streams */
+export function effectDeciderConfig<TRequest, TResult>(
+  name: string
+): DeciderConfig<
+  EffectCommand<TRequest, TResult>,
+  EffectOutbox<TRequest, TResult>,
+  { now: number },
+  EffectEvent<TRequest, TResult>
+> {
+  const reject = (command: string, constraint: string): EffectEvent<TRequest, TResult>[] => [
+    { type: 'DecisionFailed', command, constraints: [constraint] },
+  ];
+
+  return {
+    name,
+    initialState: {},
+    streamId: {
+      command: (cmd) => cmd.payload.id,
+      event: (event) => (event.type === 'DecisionFailed' ? undefined : event.payload.id),
+    },
+    resolveContext: (_cmd, { clock }) => ({ now: clock.now() }),
+    decide: (cmd, outbox, ctx) => {
+      const existing = outbox[cmd.payload.id];
+      switch (cmd.type) {
+        case 'RequestEffect':
+          if (existing) return reject(cmd.type, 'effect-already-requested');
+          return [{ type: 'EffectRequested', payload: { ...cmd.payload, requestedAt: ctx.now } }];
+        case 'CompleteEffect':
+          if (existing?.status !== 'pending') return reject(cmd.type, 'effect-not-pending');
+          return [{ type: 'EffectSucceeded', payload: cmd.payload }];
+        case 'FailEffect':
+          if (existing?.status !== 'pending') return reject(cmd.type, 'effect-not-pending');
+          return [{ type: 'EffectFailed', payload: cmd.payload }];
+      }
+    },
+    evolve: (outbox, event) => {
+      switch (event.type) {
+        case 'EffectRequested':
+          return { ...outbox, [event.payload.id]: { ...event.payload, status: 'pending' } };
+        case 'EffectSucceeded':
+          return {
+            ...outbox,
+            [event.payload.id]: { ...outbox[event.payload.id], status: 'succeeded', result: event.payload.result },
+          };
+        case 'EffectFailed':
+          return {
+            ...outbox,
+            [event.payload.id]: { ...outbox[event.payload.id], status: 'failed', error: event.payload.error },
+          };
+        case 'DecisionFailed':
+          return outbox;
+      }
+    },
+  };
+}
+
+// ============================================================
+// System — wires everything together
+// ============================================================
+
+/** An event as seen on the system-wide bus and by global projectors */
+export interface SystemEvent {
+  decider: string;
+  event: any;
+  envelope?: EventEnvelope;
+}
+
+/** A process-manager command addressed to a decider by name */
+export interface RoutedCommand<TCommand = any> {
+  target: string;
+  command: TCommand;
+  /** Hand the command to the scheduler to fire this many virtual ms later */
+  delay?: number;
+  /** Hand the command to the scheduler to fire at this virtual time */
+  at?: number;
 }
 
-export interface Projector<TReadState> {
-  name: string;
-  /** Read state — use .value in JSX, auto-re-renders */
-  state: Signal<TReadState>;
-  destroy: Unsubscribe;
+/**
+ * A process manager spanning several deciders: it sees system events from
+ * any of its sources and addresses each command to a named decider.
+ */
+export type RoutedProcessManagerConfig = ProcessManagerConfig<SystemEvent, RoutedCommand>;
+
+export interface ResetOptions {
+  /**
+   * Reset only this decider: its events are dropped and everything that reads
+   * them — projectors, sagas, scheduled commands aimed at it — is brought in line
+   */
+  decider?: string;
+  /** Also delete what persistence saved for the reset scope (see PersistenceManager.enableForSystem) */
+  clearPersisted?: boolean;
 }
 
-export function createProjector<TReadState, TEvent>(
-  config: ProjectorConfig<TReadState, TEvent>,
-  events: EventBus<TEvent>,
-  trace?: EventBus<TraceEntry>
-): Projector<TReadState> {
-  const state = signal<TReadState>(config.initialState);
+/** The event type of a decider */
+export type EventOf<D> = D extends Decider<any, any, infer TEvent, any> ? TEvent : never;
 
-  const unsub = events.subscribe((event) => {
-    try {
-      state.value = config.project(state.value, event);
-      trace?.emit({ kind: 'projection', timestamp: Date.now(), projector: config.name, event });
-    } catch (error) {
-      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'project', error });
-    }
-  });
+/** Event types produced by any of the sources */
+export type SourceEventType<TSources extends Record<string, Decider<any, any, any>>> =
+  EventOf<TSources[keyof TSources]> extends infer TEvent
+    ? TEvent extends { type: infer TType extends string }
+      ? TType
+      : never
+    : never;
 
-  return { name: config.name, state, destroy: unsub };
-}
+type NarrowEvent<TEvent, TType> = TEvent extends { type: TType } ? TEvent : never;
 
-// ============================================================
-// Process Manager — reacts to events, emits commands
-// ============================================================
+/**
+ * A system event from one of the sources, discriminated by decider name —
+ * narrow on `decider`, then on `event.type`. Only the listed types when given.
+ */
+export type SourcedEvent<
+  TSources extends Record<string, Decider<any, any, any>>,
+  TType extends string = string,
+> = {
+  [K in keyof TSources & string]: [NarrowEvent<EventOf<TSources[K]>, TType>] extends [never]
+    ? never
+    : { decider: K; event: NarrowEvent<EventOf<TSources[K]>, TType>; envelope?: EventEnvelope };
+}[keyof TSources & string];
+
+export interface MultiSourceProjectorConfig<
+  TReadState,
+  TSources extends Record<string, Decider<any, any, any>>,
+  TType extends SourceEventType<TSources> = SourceEventType<TSources>,
+> extends ProjectorConfig<TReadState, SourcedEvent<TSources, TType>> {
+  /** Event types the projector consumes — every event of the sources when omitted */
+  types?: TType[];
+}
 
-export interface ProcessManagerConfig<TEvent, TCommand> {
-  name: string;
-  filter: (event: TEvent) => boolean;
-  react: React<TEvent, TCommand>;
+export interface SystemOptions {
+  enableConsoleTrace?: boolean;
+  /**
+   * Queue commands issued by process managers and run them breadth-first once the
+   * current dispatch has finished, instead of dispatching them from inside emit
+   */
+  runToCompletion?: boolean;
+  /** Process-manager hops allowed from one originating command before the cascade is aborted (default 25) */
+  maxCascadeDepth?: number;
+  /** Virtual clock — defaults to one following wall time; pass new VirtualClock(start) to freeze it */
+  clock?: VirtualClock;
+  /** Id generator for commands, envelopes and the model — e.g. createIdGenerator(seed) */
+  ids?: IdGenerator;
 }
 
-export function createProcessManager<TEvent, TCommand>(
-  config: ProcessManagerConfig<TEvent, TCommand>,
-  sourceEvents: EventBus<TEvent>,
-  targetDispatch: (command: TCommand) => DispatchResult,
-  trace?: EventBus<TraceEntry>
-): Unsubscribe {
-  return sourceEvents.subscribe((event) => {
-    if (!config.filter(event)) return;
+/** A process-manager command waiting for the current dispatch to finish */
+interface QueuedCommand {
+  target: Decider<any, any, any>;
+  command: unknown;
+  options: DispatchOptions;
+  /** Event the command reacts to — dropped if it is rolled back before the command runs */
+  trigger?: EventEnvelope;
+  chain: CascadeStep[];
+  onResult?: (result: DispatchResult) => void;
+}
 
-    try {
-      const commands = config.react(event);
-      trace?.emit({
-        kind: 'process-manager',
-        timestamp: Date.now(),
-        manager: config.name,
-        trigger: event,
-        commands,
-      });
+/** Bookkeeping for everything one originating command sets in motion */
+interface ActiveCascade {
+  /** Only present in run-to-completion mode */
+  queue?: QueuedCommand[];
+  /** Hops that led to the command currently being dispatched */
+  chain: CascadeStep[];
+  aborted?: { message: string; chain: CascadeStep[] };
+}
 
-      for (const command of commands) {
-        targetDispatch(command);
-      }
-    } catch (error) {
-      trace?.emit({ kind: 'error', timestamp: Date.now(), phase: 'process-manager', error });
-    }
-  });
+/** Saga wiring kept by the system so instances can be rebuilt from history */
+interface SagaRegistration {
+  saga: Saga<any>;
+  /** Decider the saga listens to */
+  source: string;
 }
 
-// ============================================================
-// System — wires everything together
-// ============================================================
+/** Projector wiring kept by the system so read models can be recomputed from history */
+interface ProjectorRegistration {
+  projector: Projector<any>;
+  config: ProjectorConfig<any, any>;
+  /** Decider the projector listens to, or undefined for projectors fed system events */
+  source?: string;
+  /** Which system events such a projector takes — all of them when omitted */
+  accepts?: (decider: string, event: any) => boolean;
+}
 
 export class System {
   /** Map of all deciders in the system */
   readonly deciders = new Map<string, Decider<any, any, any>>();
+
+  /** Map of all projectors in the system */
+  readonly projectors = new Map<string, Projector<any>>();
   
   private cleanups: Unsubscribe[] = [];
+  private projections = new Map<string, ProjectorRegistration>();
+  private sagas: SagaRegistration[] = [];
+  /** Live state outside the deciders that reset must drop too — called with the reset decider, if any */
+  private resetHandlers = new Set<(decider?: string) => void>();
+  private readonly runToCompletion: boolean;
+  private readonly maxCascadeDepth: number;
+  private activeCascade?: ActiveCascade;
+  /** Hops that led to commands handed to dispatchAsync — their commit resumes the chain */
+  private asyncChains = new WeakMap<DispatchOptions, CascadeStep[]>();
   readonly trace = new EventBus<TraceEntry>();
 
   /** Trace entries as a signal — read in JSX for debug panel */
   readonly traceLog = signal<TraceEntry[]>([]);
 
   /** All events across all deciders */
-  readonly allEvents = new EventBus<{ decider: string; event: any }>();
+  readonly allEvents = new EventBus<SystemEvent>();
+
+  /** Virtual time: stamps envelopes, drives the scheduler — advance it to fast-forward deadlines */
+  readonly clock: VirtualClock;
+
+  /** Clock and ids handed to resolveContext, projectors and process managers */
+  readonly services: SystemServices;
+
+  /** Append-only history shared by every decider in the system */
+  readonly eventStore: EventStore;
+
+  /** Step every decider and projector back and forward through history */
+  readonly timeTravel: TimeTravel;
+
+  /** Commands waiting for the virtual clock; nothing fires while time-travelling */
+  readonly scheduler: Scheduler;
+
+  /** Pass `true` as a shorthand for `{ enableConsoleTrace: true }` */
+  constructor(options: boolean | SystemOptions = false) {
+    const {
+      enableConsoleTrace = false,
+      runToCompletion = false,
+      maxCascadeDepth = 25,
+      clock = new VirtualClock(),
+      ids = createIdGenerator(),
+    } = typeof options === 'boolean' ? { enableConsoleTrace: options } : options;
+    this.runToCompletion = runToCompletion;
+    this.maxCascadeDepth = maxCascadeDepth;
+
+    this.clock = clock;
+    this.services = { clock, ids };
+    this.eventStore = new EventStore(this.services);
+    this.timeTravel = new TimeTravel(
+      this.eventStore,
+      (sequence) => this.restoreTo(sequence),
+      this.trace
+    );
+    this.scheduler = new Scheduler(
+      clock,
+      ids,
+      (item) =>
+        this.deliver(item.target, item.command, {
+          source: item.source,
+          correlationId: item.correlationId,
+          causationId: item.causationId,
+          actor: item.actor,
+        }),
+      this.trace,
+      () => this.timeTravel.isTraveling.peek()
+    );
 
-  constructor(enableConsoleTrace = false) {
     // Collect trace entries into signal
     this.cleanups.push(
       this.trace.subscribe((entry) => {
@@ -331,13 +2158,17 @@ export class System {
       })
     );
 
+    // Fire scheduled commands as virtual time passes, and those that fell due while travelling
+    this.cleanups.push(this.clock.ticks.subscribe(() => this.scheduler.runDue()));
+    this.cleanups.push(this.timeTravel.onReturnToHead(() => this.scheduler.runDue()));
+
     if (enableConsoleTrace) {
       this.cleanups.push(
         this.trace.subscribe((entry) => {
           const t = new Date(entry.timestamp).toISOString().slice(11, 23);
           switch (entry.kind) {
             case 'command':
-              console.log(`[${t}] ⌘`, (entry.command as any)?.type, entry.source);
+              console.log(`[${t}] ⌘ ${(entry.command as any)?.type} [${entry.source}]`);
               break;
             case 'event':
               console.log(`[${t}] ⚡`, (entry.event as any)?.type);
@@ -345,6 +2176,43 @@ export class System {
             case 'process-manager':
               console.log(`[${t}] 🔄 ${entry.manager} →`, entry.commands.length, 'cmd(s)');
               break;
+            case 'process-manager-result':
+              console.log(
+                `[${t}] ${entry.result.success ? '✅' : '⚠️'} ${entry.manager}:`,
+                (entry.command as any)?.type,
+                entry.result.success ? 'succeeded' : `failed (${entry.result.errorCode})`,
+                `— attempt ${entry.attempt}, triggered by`,
+                (entry.trigger as any)?.type
+              );
+              break;
+            case 'queued':
+              console.log(`[${t}] ⏳ #${entry.position}`, (entry.command as any)?.type, '→', entry.decider);
+              break;
+            case 'compensation':
+              console.log(
+                `[${t}] ↩️ ${entry.saga}/${entry.instance} compensating`,
+                entry.commands.length,
+                `cmd(s) after ${entry.failed.command} failed`
+              );
+              break;
+            case 'effect':
+              console.log(`[${t}] 📤 ${entry.effect} ${entry.status}`, entry.error ?? '');
+              break;
+            case 'reset':
+              console.log(`[${t}] 🧹 reset`, entry.decider ?? 'system');
+              break;
+            case 'time-travel':
+              console.log(`[${t}] ⏪`, entry.position === null ? 'head' : `#${entry.position}`);
+              break;
+            case 'schedule':
+              console.log(
+                `[${t}] ⏰ ${entry.action}`,
+                (entry.item.command as any)?.type,
+                '→',
+                entry.item.target,
+                `@${new Date(entry.item.dueAt).toISOString()}`
+              );
+              break;
             case 'error':
               console.error(`[${t}] ❌ ${entry.phase}`, entry.error);
               break;
@@ -357,18 +2225,217 @@ export class System {
   addDecider<TCommand, TState, TContext, TEvent>(
     config: DeciderConfig<TCommand, TState, TContext, TEvent>
   ): Decider<TCommand, TState, TEvent> {
+    this.assertUniqueDecider(config.name);
+    return this.registerDecider(createDecider(config, this.trace, this.deciderRuntime()));
+  }
+
+  /** Add a decider that keeps one stream per aggregate instance */
+  addAggregateDecider<TCommand, TState, TContext, TEvent>(
+    config: AggregateDeciderConfig<TCommand, TState, TContext, TEvent>
+  ): AggregateDecider<TCommand, TState, TEvent> {
+    this.assertUniqueDecider(config.name);
+    return this.registerDecider(createAggregateDecider(config, this.trace, this.deciderRuntime()));
+  }
+
+  private assertUniqueDecider(name: string): void {
     // Validate unique decider name
-    if (this.deciders.has(config.name)) {
-      throw new Error(`Decider with name '${config.name}' already exists`);
+    if (this.deciders.has(name)) {
+      throw new Error(`Decider with name '${name}' already exists`);
     }
-    
-    const decider = createDecider(config, this.trace);
-    this.deciders.set(config.name, decider);
+  }
+
+  private deciderRuntime(): DeciderRuntime {
+    return {
+      store: this.eventStore,
+      guard: () =>
+        this.timeTravel.isTraveling.peek()
+          ? 'Time travel active: return to head before dispatching'
+          : undefined,
+      lookup: (kind, name) => this.lookup(kind, name),
+      cascade: (run, options) => this.cascade(run, (options && this.asyncChains.get(options)) ?? []),
+      restore: () => this.restoreTo(this.eventStore.head),
+    };
+  }
+
+  /**
+   * The outermost dispatch owns the cascade: it tracks how many process-manager
+   * hops deep each command is and, in run-to-completion mode, a queue of
+   * follow-up commands processed breadth-first once it returns.
+   */
+  private cascade(run: () => DispatchResult, chain: CascadeStep[] = []): DispatchResult {
+    if (this.activeCascade) return run();
+
+    const active: ActiveCascade = (this.activeCascade = {
+      queue: this.runToCompletion ? [] : undefined,
+      chain,
+    });
+    try {
+      const result = run();
+      const followUps: DispatchResult[] = [];
+
+      for (let next = active.queue?.shift(); next && !active.aborted; next = active.queue?.shift()) {
+        if (this.isRolledBack(next.trigger)) {
+          this.traceRolledBack(next.target, next.command);
+          continue;
+        }
+        active.chain = next.chain;
+        const followUp = next.target.dispatch(next.command, next.options);
+        followUps.push(followUp);
+        next.onResult?.(followUp);
+      }
+
+      if (followUps.length > 0) {
+        result.cascade = followUps;
+      }
+      if (active.aborted) {
+        result.success = false;
+        result.errorCode = 'CascadeLimitExceeded';
+        result.error = active.aborted.message;
+        result.cascadeChain = active.aborted.chain;
+      }
+      return result;
+    } finally {
+      this.activeCascade = undefined;
+    }
+  }
+
+  /** True when the event was stored but has since been taken out by a rolled-back publish */
+  private isRolledBack(envelope?: EventEnvelope): boolean {
+    return envelope !== undefined && !this.eventStore.events.peek().includes(envelope);
+  }
+
+  private traceRolledBack(target: Decider<any, any, any>, command: unknown): void {
+    this.trace.emit({
+      kind: 'error',
+      timestamp: Date.now(),
+      phase: 'cascade',
+      error: `Dropped ${(command as any)?.type ?? 'command'} for '${target.name}': its trigger was rolled back`,
+    });
+  }
+
+  /** Dispatch by name the way the decider needs — through dispatchAsync when it is async */
+  private deliver(
+    deciderName: string,
+    command: unknown,
+    options: DispatchOptions
+  ): DispatchResult | Promise<DispatchResult> {
+    return this.deciders.get(deciderName)?.isAsync
+      ? this.dispatchAsync(deciderName, command, options)
+      : this.dispatch(deciderName, command, options);
+  }
+
+  /**
+   * Dispatch on behalf of a process manager — queued while a run-to-completion
+   * dispatch is active. Every hop, including follow-ups issued from onResult
+   * and commands to async deciders, counts towards maxCascadeDepth.
+   */
+  private dispatchFrom(
+    target: Decider<any, any, any>,
+    command: unknown,
+    options: DispatchOptions,
+    envelope?: EventEnvelope,
+    onResult?: (result: DispatchResult) => void
+  ): DispatchResult | void {
+    const active = this.activeCascade;
+    if (active?.aborted) return;
+
+    const source = options.source ?? 'unknown';
+    const chain = [
+      ...(active?.chain ?? []),
+      {
+        decider: envelope?.decider ?? 'unknown',
+        event: envelope?.event?.type ?? 'unknown',
+        manager: source,
+        target: target.name,
+      },
+    ];
+
+    if (chain.length > this.maxCascadeDepth) {
+      const path = chain.map((step) => `${step.decider}:${step.event} → ${step.manager}`).join(' → ');
+      const message = `Cascade depth limit (${this.maxCascadeDepth}) exceeded: ${path} → ${target.name}`;
+      if (active) active.aborted = { message, chain };
+      this.trace.emit({ kind: 'error', timestamp: Date.now(), phase: 'cascade', error: message });
+      return;
+    }
+
+    if (target.isAsync) {
+      // Cannot finish inside the current dispatch: it joins the target's async
+      // queue, and its commit and onResult carry on from this hop
+      const hopOptions = { ...options };
+      this.asyncChains.set(hopOptions, chain);
+      // Sent once the current publish is over, unless its trigger was rolled back
+      Promise.resolve()
+        .then(() => {
+          if (this.isRolledBack(envelope)) {
+            this.traceRolledBack(target, command);
+            return undefined;
+          }
+          return target.dispatchAsync(command, hopOptions);
+        })
+        .then((result) => {
+          if (!result || !onResult) return;
+          this.cascade(() => {
+            onResult(result);
+            return result;
+          }, chain);
+        })
+        .catch((error) => this.trace.emit({ kind: 'error', timestamp: Date.now(), phase: 'process-manager', error }));
+      return;
+    }
+
+    const runHop = () => {
+      const result = target.dispatch(command, options);
+      // Follow-ups from onResult extend this hop's chain
+      onResult?.(result);
+      return result;
+    };
+
+    if (!active) {
+      // Outside any dispatch, e.g. a join timing out on a clock tick
+      return this.cascade(runHop, chain);
+    }
+
+    if (!active.queue) {
+      const parent = active.chain;
+      active.chain = chain;
+      try {
+        return runHop();
+      } finally {
+        active.chain = parent;
+      }
+    }
+
+    active.queue.push({ target, command, options, trigger: envelope, chain, onResult });
+    this.trace.emit({
+      kind: 'queued',
+      timestamp: Date.now(),
+      decider: target.name,
+      command,
+      source,
+      position: active.queue.length,
+    });
+  }
+
+  /** Current state behind the SystemView handed to resolveContext */
+  private lookup(kind: ContextRead['kind'], name: string): unknown {
+    if (kind === 'decider') {
+      const decider = this.deciders.get(name);
+      if (!decider) throw new Error(`Decider '${name}' not found`);
+      return decider.state.peek();
+    }
+
+    const projector = this.projectors.get(name);
+    if (!projector) throw new Error(`Projector '${name}' not found`);
+    return projector.state.peek();
+  }
+
+  private registerDecider<D extends Decider<any, any, any>>(decider: D): D {
+    this.deciders.set(decider.name, decider);
 
     // Forward to system-wide event bus
     this.cleanups.push(
-      decider.events.subscribe((event) =>
-        this.allEvents.emit({ decider: config.name, event })
+      decider.events.subscribe((event, envelope) =>
+        this.allEvents.emit({ decider: decider.name, event, envelope }, envelope)
       )
     );
 
@@ -379,19 +2446,137 @@ export class System {
     config: ProjectorConfig<TReadState, TEvent>,
     source: Decider<any, any, TEvent>
   ): Projector<TReadState> {
-    const projector = createProjector(config, source.events, this.trace);
-    this.cleanups.push(projector.destroy);
-    return projector;
+    this.assertUniqueProjector(config.name);
+    const projector = createProjector(config, source.events, this.trace, this.services);
+    return this.registerProjector({ projector, config, source: source.name });
   }
 
   addGlobalProjector<TReadState>(
-    config: ProjectorConfig<TReadState, { decider: string; event: any }>
+    config: ProjectorConfig<TReadState, SystemEvent>
+  ): Projector<TReadState> {
+    this.assertUniqueProjector(config.name);
+    const projector = createProjector(config, this.allEvents, this.trace, this.services);
+    return this.registerProjector({ projector, config });
+  }
+
+  /**
+   * Add a projector fed by a chosen set of deciders, keyed by the names its
+   * project function narrows on, and optionally only some event types:
+   *
+   * system.addMultiSourceProjector(
+   *   { name: 'Dashboard', initialState, types: ['OrderPlaced', 'ProductAdded'], project },
+   *   { Order: orders, Catalog: catalog }
+   * );
+   */
+  addMultiSourceProjector<
+    TReadState,
+    TSources extends Record<string, Decider<any, any, any>>,
+    const TType extends SourceEventType<TSources> = SourceEventType<TSources>,
+  >(
+    config: MultiSourceProjectorConfig<TReadState, TSources, TType>,
+    sources: TSources
   ): Projector<TReadState> {
-    const projector = createProjector(config, this.allEvents, this.trace);
+    this.assertUniqueProjector(config.name);
+
+    // Sources are keyed by the name project narrows on, so it must be the decider's own
+    for (const [key, decider] of Object.entries(sources)) {
+      if (decider.name !== key) {
+        throw new Error(`Projector '${config.name}': source '${key}' is decider '${decider.name}'`);
+      }
+    }
+
+    const accepts = (decider: string, event: any) =>
+      decider in sources && (config.types === undefined || config.types.includes(event?.type));
+
+    const events = new EventBus<SourcedEvent<TSources, TType>>();
+    const forward = this.allEvents.subscribe((systemEvent, envelope) => {
+      if (accepts(systemEvent.decider, systemEvent.event)) {
+        events.emit(systemEvent as SourcedEvent<TSources, TType>, envelope);
+      }
+    });
+
+    const projector = createProjector(config, events, this.trace, this.services);
+    const destroy = () => {
+      forward();
+      projector.destroy();
+    };
+    return this.registerProjector({ projector: { ...projector, destroy }, config, accepts });
+  }
+
+  /** Stop a projector and remove it from the system; returns false if there was none by that name */
+  removeProjector(name: string): boolean {
+    const projector = this.projectors.get(name);
+    if (!projector) return false;
+
+    projector.destroy();
+    this.projectors.delete(name);
+    this.projections.delete(name);
+    return true;
+  }
+
+  private assertUniqueProjector(name: string): void {
+    if (this.projectors.has(name)) {
+      throw new Error(`Projector with name '${name}' already exists`);
+    }
+  }
+
+  /** Register a projector, folding any history that happened before it was added */
+  private registerProjector<TReadState>(registration: ProjectorRegistration): Projector<TReadState> {
+    const { projector } = registration;
+    this.projectors.set(projector.name, projector);
+    this.projections.set(projector.name, registration);
     this.cleanups.push(projector.destroy);
+
+    if (this.eventStore.head > 0) {
+      this.rebuildProjector(projector.name);
+    }
     return projector;
   }
 
+  /**
+   * Recompute a projector's state from the stored history — after editing its
+   * project function, for instance. Follows time travel: while showing a past
+   * state, only history up to that point is folded.
+   */
+  rebuildProjector(name: string): void {
+    const registration = this.projections.get(name);
+    if (!registration) throw new Error(`Projector '${name}' not found`);
+
+    const history = this.eventStore.query({
+      toSequence: this.timeTravel.position.peek() ?? this.eventStore.head,
+    });
+    const events = this.foldProjector(registration, history);
+    this.trace.emit({ kind: 'projector-rebuild', timestamp: Date.now(), projector: name, events });
+  }
+
+  /** Set a projector's state by folding history through its project function; returns the events folded */
+  private foldProjector(
+    { projector, config, source, accepts }: ProjectorRegistration,
+    history: EventEnvelope[]
+  ): number {
+    const relevant = history.filter((stored) =>
+      source === undefined ? (accepts?.(stored.decider, stored.event) ?? true) : stored.decider === source
+    );
+
+    projector.state.value = relevant.reduce((readState, stored) => {
+      try {
+        return config.project(
+          readState,
+          source === undefined
+            ? { decider: stored.decider, event: stored.event, envelope: stored }
+            : stored.event,
+          stored,
+          eventServices(stored, this.services)
+        );
+      } catch (error) {
+        this.trace.emit({ kind: 'error', timestamp: Date.now(), phase: 'project', error });
+        return readState;
+      }
+    }, config.initialState);
+
+    return relevant.length;
+  }
+
   addProcessManager<TEvent, TCommand>(
     config: ProcessManagerConfig<TEvent, TCommand>,
     source: Decider<any, any, TEvent>,
@@ -400,14 +2585,236 @@ export class System {
     const unsub = createProcessManager(
       config,
       source.events,
-      (cmd) => target.dispatch(cmd),
-      this.trace
+      (cmd, options, envelope, onResult) =>
+        this.dispatchFrom(target, cmd, options, envelope, onResult),
+      this.trace,
+      this.services
+    );
+    this.cleanups.push(unsub);
+  }
+
+  /**
+   * Add a process manager that listens to several deciders — every decider
+   * when sources is omitted — and routes its commands by decider name.
+   */
+  addRoutedProcessManager(
+    config: RoutedProcessManagerConfig,
+    sources?: Array<Decider<any, any, any>>
+  ): void {
+    const names = sources?.map((source) => source.name);
+    const unsub = createProcessManager<SystemEvent, RoutedCommand>(
+      {
+        ...config,
+        filter: (event, envelope) =>
+          (names === undefined || names.includes(event.decider)) && config.filter(event, envelope),
+      },
+      this.allEvents,
+      ({ target, command, delay, at }, options, envelope, onResult) => {
+        if (delay !== undefined || at !== undefined) {
+          this.scheduler.schedule(target, command, { ...options, delay, at });
+          return;
+        }
+
+        const decider = this.deciders.get(target);
+        if (!decider) {
+          this.trace.emit({
+            kind: 'error',
+            timestamp: Date.now(),
+            phase: 'process-manager',
+            error: `Process manager '${config.name}': target decider '${target}' not found`,
+          });
+          return;
+        }
+        return this.dispatchFrom(decider, command, options, envelope, onResult);
+      },
+      this.trace,
+      this.services
+    );
+    this.cleanups.push(unsub);
+  }
+
+  /**
+   * Add an outbox-style side effect. Events from the source that call for it
+   * are recorded as EffectRequested; once that dispatch has finished the
+   * handler runs and its outcome is recorded as EffectSucceeded or EffectFailed.
+   */
+  addEffect<TEvent, TRequest, TResult>(
+    config: EffectConfig<TEvent, TRequest, TResult>,
+    source: Decider<any, any, TEvent>
+  ): Effect<TRequest, TResult> {
+    const decider = this.addDecider(effectDeciderConfig<TRequest, TResult>(config.name));
+    let handler: EffectHandler<TRequest, TResult> = config.handler ?? mockEffectHandler<TRequest, any>();
+
+    const traceEffect = (record: EffectRecord<TRequest, TResult>) =>
+      this.trace.emit({
+        kind: 'effect',
+        timestamp: Date.now(),
+        effect: config.name,
+        id: record.id,
+        status: record.status,
+        request: record.request,
+        result: record.result,
+        error: record.error,
+      });
+
+    // Outcomes of effects that already ran but could not be recorded yet (time travel
+    // was active) — recorded on return to head so the handler never runs twice
+    const unrecorded = new Map<string, { outcome: EffectCommand<TRequest, TResult>; options: DispatchOptions }>();
+
+    const recordOutcome = (outcome: EffectCommand<TRequest, TResult>, options: DispatchOptions) => {
+      const { id } = outcome.payload;
+      const result = decider.dispatch(outcome, options);
+      const stored = decider.state.peek()[id];
+      if (result.success && stored) {
+        unrecorded.delete(id);
+        traceEffect(stored);
+        return;
+      }
+
+      this.trace.emit({
+        kind: 'error',
+        timestamp: Date.now(),
+        phase: 'effect',
+        error: `Effect '${config.name}': could not record the outcome of ${id} (${result.error})`,
+      });
+      // Refused only while travelling — any other failure will not go away on retry
+      if (result.errorCode === 'Refused') unrecorded.set(id, { outcome, options });
+      else unrecorded.delete(id);
+    };
+
+    const run = async (id: string, request: TRequest, options: DispatchOptions) => {
+      let outcome: EffectCommand<TRequest, TResult>;
+      try {
+        outcome = { type: 'CompleteEffect', payload: { id, result: await handler(request, this.services) } };
+      } catch (error: any) {
+        outcome = { type: 'FailEffect', payload: { id, error: error?.message ?? String(error) } };
+      }
+      recordOutcome(outcome, options);
+    };
+
+    this.cleanups.push(
+      this.timeTravel.onReturnToHead(() => {
+        for (const { outcome, options } of [...unrecorded.values()]) {
+          recordOutcome(outcome, options);
+        }
+      }),
+      this.onReset((name) => {
+        if (name === undefined || name === config.name) unrecorded.clear();
+      })
     );
+
+    const unsub = source.events.subscribe((event, envelope) => {
+      try {
+        const request = config.request(event, envelope, this.services);
+        if (request === undefined) return;
+
+        const id = this.services.ids.next();
+        const options: DispatchOptions = {
+          source: config.name,
+          correlationId: envelope?.correlationId,
+          causationId: envelope?.id,
+          actor: envelope?.actor,
+        };
+        this.dispatchFrom(
+          decider,
+          {
+            type: 'RequestEffect',
+            payload: { id, request, triggeredBy: envelope?.id, correlationId: envelope?.correlationId },
+          },
+          options,
+          envelope,
+          (result) => {
+            const record = decider.state.peek()[id];
+            if (!result.success || !record) return;
+            traceEffect(record);
+            // Outbox: the request is recorded before the effect runs, after the current dispatch
+            queueMicrotask(() => void run(id, request, options));
+          }
+        );
+      } catch (error) {
+        this.trace.emit({ kind: 'error', timestamp: Date.now(), phase: 'effect', error });
+      }
+    });
     this.cleanups.push(unsub);
+
+    return Object.assign(decider, {
+      pendingEffects: computed(() =>
+        Object.values(decider.state.value).filter((record) => record.status === 'pending')
+      ),
+      useHandler: (next: EffectHandler<TRequest, TResult>) => {
+        handler = next;
+      },
+      retryPending: async () => {
+        // Effects that already ran only need their outcome recorded
+        for (const { outcome, options } of [...unrecorded.values()]) {
+          recordOutcome(outcome, options);
+        }
+        const pending = Object.values(decider.state.peek()).filter(
+          (record) => record.status === 'pending' && !unrecorded.has(record.id)
+        );
+        await Promise.all(
+          pending.map((record) =>
+            run(record.id, record.request, {
+              source: config.name,
+              correlationId: record.correlationId,
+              causationId: record.triggeredBy,
+            })
+          )
+        );
+      },
+    });
+  }
+
+  /**
+   * Add a stateful process manager. Each correlation key gets its own
+   * instance, rebuilt from history on rehydrate and time travel.
+   */
+  addSaga<TEvent, TCommand, TState>(
+    config: SagaConfig<TEvent, TCommand, TState>,
+    source: Decider<any, any, TEvent>,
+    target: Decider<TCommand, any, any>
+  ): Saga<TState, TEvent> {
+    const saga = createSaga(
+      config,
+      source.events,
+      (cmd, options, envelope, onResult) =>
+        this.dispatchFrom(target, cmd, options, envelope, onResult),
+      this.trace,
+      this.services
+    );
+    this.sagas.push({ saga, source: source.name });
+    this.cleanups.push(saga.destroy);
+    return saga;
+  }
+
+  /** Add a saga that reacts once ALL or ANY of several events have arrived for a key */
+  addJoin<TEvent, TCommand>(
+    config: JoinConfig<TEvent, TCommand>,
+    source: Decider<any, any, TEvent>,
+    target: Decider<TCommand, any, any>
+  ): Saga<JoinState<TEvent>, TEvent> {
+    const join = createJoin(
+      config,
+      source.events,
+      (cmd, options, envelope, onResult) =>
+        this.dispatchFrom(target, cmd, options, envelope, onResult),
+      this.trace,
+      this.services,
+      this.clock.ticks,
+      () => this.timeTravel.isTraveling.peek()
+    );
+    this.sagas.push({ saga: join, source: source.name });
+    this.cleanups.push(join.destroy);
+    return join;
+  }
+
+  /** Dispatch a command once the virtual clock reaches its due time */
+  schedule(deciderName: string, command: any, options?: ScheduleOptions): ScheduledCommand {
+    return this.scheduler.schedule(deciderName, command, options);
   }
 
   /** Dispatch a command to a specific decider */
-  dispatch(deciderName: string, command: any): DispatchResult {
+  dispatch(deciderName: string, command: any, options?: DispatchOptions): DispatchResult {
     const decider = this.deciders.get(deciderName);
     if (!decider) {
       return {
@@ -415,25 +2822,110 @@ export class System {
         decider: deciderName,
         command: command.type || 'unknown',
         events: [],
+        errorCode: 'DeciderNotFound',
         error: `Decider '${deciderName}' not found`
       };
     }
-    return decider.dispatch(command);
+    return decider.dispatch(command, options);
+  }
+
+  /** Dispatch a command to a specific decider whose decide or resolveContext may be async */
+  dispatchAsync(deciderName: string, command: any, options?: DispatchOptions): Promise<DispatchResult> {
+    const decider = this.deciders.get(deciderName);
+    if (!decider) {
+      return Promise.resolve(this.dispatch(deciderName, command, options));
+    }
+    return decider.dispatchAsync(command, options);
   }
 
-  /** Reset all deciders to their initial state and clear the trace log */
-  reset(): void {
-    // Reset all deciders to initial state
-    for (const decider of this.deciders.values()) {
-      decider.state.value = decider.initialState;
+  /**
+   * Rebuild every decider's and projector's state from the event store.
+   * Pass a history (e.g. one restored from persistence) to load it into the store first.
+   * Events are folded through the current evolve functions — nothing is re-published.
+   */
+  rehydrate(history?: EventEnvelope[]): void {
+    if (history) {
+      this.eventStore.load(history);
     }
-    
-    // Clear the trace log
-    this.traceLog.value = [];
-    
-    // Note: Process manager correlation state would need to be handled
-    // if we were tracking pending ALL-joins, but this simple implementation
-    // doesn't maintain that state
+
+    batch(() => {
+      this.timeTravel.position.value = null;
+      this.restoreTo(this.eventStore.head);
+    });
+  }
+
+  /** Recompute deciders, projectors and sagas as of the given sequence without publishing */
+  private restoreTo(sequence: number): void {
+    const history = this.eventStore.query({ toSequence: sequence });
+
+    batch(() => {
+      for (const decider of this.deciders.values()) {
+        decider.replay(
+          history.filter((stored) => stored.decider === decider.name).map((stored) => stored.event)
+        );
+      }
+
+      for (const registration of this.projections.values()) {
+        this.foldProjector(registration, history);
+      }
+
+      for (const { saga, source } of this.sagas) {
+        saga.replay(
+          history
+            .filter((stored) => stored.decider === source)
+            .map((stored) => ({ event: stored.event, envelope: stored }))
+        );
+      }
+    });
+  }
+
+  /**
+   * Return every decider, projector and saga to its initial state and clear
+   * the event store, schedule and trace log. With `decider`, only that
+   * decider's history is dropped and its dependants are recomputed from what remains.
+   */
+  reset(options: ResetOptions = {}): void {
+    const { decider: name, clearPersisted = false } = options;
+    if (name !== undefined && !this.deciders.has(name)) {
+      throw new Error(`Decider '${name}' not found`);
+    }
+
+    // Leave any past state before history is dropped
+    this.timeTravel.returnToHead();
+
+    if (name !== undefined) {
+      this.eventStore.remove((stored) => stored.decider === name);
+      this.restoreTo(this.eventStore.head);
+      for (const item of this.scheduler.pending.peek()) {
+        if (item.target === name) this.scheduler.cancel(item.id);
+      }
+    } else {
+      batch(() => {
+        for (const decider of this.deciders.values()) {
+          decider.state.value = decider.initialState;
+        }
+        for (const { projector, config } of this.projections.values()) {
+          projector.state.value = config.initialState;
+        }
+        // Drop in-flight saga instances along with the history that built them
+        for (const { saga } of this.sagas) {
+          saga.reset();
+        }
+      });
+
+      // History no longer matches the deciders' state
+      this.eventStore.clear();
+      this.scheduler.clear();
+      this.traceLog.value = [];
+    }
+
+    this.resetHandlers.forEach((handler) => handler(name));
+    this.trace.emit({ kind: 'reset', timestamp: Date.now(), decider: name, clearPersisted });
+  }
+
+  private onReset(handler: (decider?: string) => void): Unsubscribe {
+    this.resetHandlers.add(handler);
+    return () => this.resetHandlers.delete(handler);
   }
 
   destroy(): void {
@@ -468,8 +2960,8 @@ export function select<TState, TSelected>(
 // ============================================================
 
 export class ReactSystem extends System {
-  constructor(enableConsoleTrace = false) {
-    super(enableConsoleTrace);
+  constructor(options: boolean | SystemOptions = false) {
+    super(options);
     
     // Ensure React integration is loaded
     if (typeof window !== 'undefined' && !window.__PROTOPAL_REACT_AUTO_IMPORTED__) {
@@ -493,8 +2985,30 @@ export interface SystemConfig {
     target: string; // decider name
     filter: (event: any) => boolean;
     react: (event: any) => any[];
+    onResult?: ProcessManagerConfig<any, any>['onResult'];
   }>;
+  projectors?: Array<
+    ProjectorConfig<any, any> & {
+      /** Decider name, a list of decider names, or omitted for a global projector */
+      source?: string | string[];
+      /** Event types a multi-source projector consumes */
+      types?: string[];
+    }
+  >;
+  routedProcessManagers?: Array<
+    RoutedProcessManagerConfig & {
+      sources?: string[]; // decider names — all deciders when omitted
+    }
+  >;
   enableConsoleTrace?: boolean;
+  /** See SystemOptions.runToCompletion */
+  runToCompletion?: boolean;
+  /** See SystemOptions.maxCascadeDepth */
+  maxCascadeDepth?: number;
+  /** See SystemOptions.clock */
+  clock?: VirtualClock;
+  /** See SystemOptions.ids */
+  ids?: IdGenerator;
 }
 
 /**
@@ -516,7 +3030,13 @@ export interface SystemConfig {
  * });
  */
 export function createSystem(config: SystemConfig): System {
-  const system = new System(config.enableConsoleTrace);
+  const system = new System({
+    enableConsoleTrace: config.enableConsoleTrace,
+    runToCompletion: config.runToCompletion,
+    maxCascadeDepth: config.maxCascadeDepth,
+    clock: config.clock,
+    ids: config.ids,
+  });
 
   // Add deciders
   if (config.deciders) {
@@ -545,7 +3065,8 @@ export function createSystem(config: SystemConfig): System {
         {
           name: pmConfig.name,
           filter: pmConfig.filter,
-          react: pmConfig.react
+          react: pmConfig.react,
+          onResult: pmConfig.onResult
         },
         sourceDecider,
         targetDecider
@@ -553,6 +3074,45 @@ export function createSystem(config: SystemConfig): System {
     }
   }
 
+  // Add projectors
+  if (config.projectors) {
+    for (const { source, types, ...projectorConfig } of config.projectors) {
+      const lookup = (name: string) => {
+        const decider = system.deciders.get(name);
+        if (!decider) {
+          throw new Error(`Projector '${projectorConfig.name}': source decider '${name}' not found`);
+        }
+        return decider;
+      };
+
+      if (source === undefined) {
+        system.addGlobalProjector(projectorConfig);
+      } else if (typeof source === 'string') {
+        system.addProjector(projectorConfig, lookup(source));
+      } else {
+        system.addMultiSourceProjector(
+          { ...projectorConfig, types },
+          Object.fromEntries(source.map((name) => [name, lookup(name)]))
+        );
+      }
+    }
+  }
+
+  // Add routed process managers
+  if (config.routedProcessManagers) {
+    for (const { sources, ...pmConfig } of config.routedProcessManagers) {
+      const sourceDeciders = sources?.map((name) => {
+        const decider = system.deciders.get(name);
+        if (!decider) {
+          throw new Error(`Process manager '${pmConfig.name}': source decider '${name}' not found`);
+        }
+        return decider;
+      });
+
+      system.addRoutedProcessManager(pmConfig, sourceDeciders);
+    }
+  }
+
   return system;
 }
 
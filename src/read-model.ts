@@ -0,0 +1,263 @@
+/**
+ * Read Models for Protopal
+ * ========================
+ *
+ * Keyed collections with secondary indexes, kept up to date from events
+ * and queried through signals
+ */
+
+import { computed, type ReadonlySignal } from '@preact/signals-react';
+import type {
+  Decider,
+  EventEnvelope,
+  Projector,
+  ProjectorConfig,
+  System,
+  SystemServices,
+} from './protopal';
+
+// ============================================================
+// Core Interfaces
+// ============================================================
+
+/** What an index files an item under — an array files it under each value */
+export type IndexValue = string | number | boolean | null | undefined;
+
+export interface ReadModelState<TItem> {
+  items: Record<string, TItem>;
+  /** Item ids by index name, then by index value */
+  indexes: Record<string, Record<string, string[]>>;
+}
+
+/** Handed to apply: read the collection and record changes to it */
+export interface ReadModelWriter<TItem> {
+  get(id: string): TItem | undefined;
+  /** Insert or replace an item */
+  put(item: TItem): void;
+  /** Replace an existing item with a changed copy — ignored when it does not exist */
+  update(id: string, change: (item: TItem) => TItem): void;
+  remove(id: string): void;
+}
+
+export interface ReadModelConfig<TItem, TEvent, TIndex extends string = never> {
+  name: string;
+  /** Id of an item — unique within the collection */
+  key: (item: TItem) => string;
+  /** Secondary indexes, e.g. { status: (order) => order.status } */
+  indexes?: Record<TIndex, (item: TItem) => IndexValue | IndexValue[]>;
+  /** Bring the collection up to date with one event */
+  apply: (
+    event: TEvent,
+    items: ReadModelWriter<TItem>,
+    envelope: EventEnvelope | undefined,
+    services: SystemServices
+  ) => void;
+}
+
+export interface ReadModelQuery<TItem, TIndex extends string = never> {
+  /** Exact matches on declared indexes — looked up, not scanned */
+  where?: Partial<Record<TIndex, IndexValue>>;
+  filter?: (item: TItem) => boolean;
+  /** A field to sort on, or a comparator */
+  orderBy?: keyof TItem | ((a: TItem, b: TItem) => number);
+  direction?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface ReadModelPage<TItem> {
+  items: TItem[];
+  /** 1-based */
+  page: number;
+  pageSize: number;
+  total: number;
+  pageCount: number;
+}
+
+export interface ReadModel<TItem, TIndex extends string = never> {
+  name: string;
+  projector: Projector<ReadModelState<TItem>>;
+  /** Every item, in object key order — integer-like ids first, ascending, then the rest as inserted */
+  all: ReadonlySignal<TItem[]>;
+  get(id: string): ReadonlySignal<TItem | undefined>;
+  query(query: ReadModelQuery<TItem, TIndex>): ReadonlySignal<TItem[]>;
+  paginate(
+    query: Omit<ReadModelQuery<TItem, TIndex>, 'offset' | 'limit'>,
+    page: { page: number; pageSize: number }
+  ): ReadonlySignal<ReadModelPage<TItem>>;
+}
+
+// ============================================================
+// Projection
+// ============================================================
+
+/** Distinct bucket keys — a value repeated in an array files the item once */
+function indexKeys(value: IndexValue | IndexValue[]): string[] {
+  return [...new Set((Array.isArray(value) ? value : [value]).map((entry) => String(entry)))];
+}
+
+/**
+ * The projector behind a read model. Each event copies only the items and
+ * index buckets it touches, so unchanged parts keep their identity.
+ */
+export function readModelProjector<TItem, TEvent, TIndex extends string = never>(
+  config: ReadModelConfig<TItem, TEvent, TIndex>
+): ProjectorConfig<ReadModelState<TItem>, TEvent> {
+  const indexes = Object.entries(config.indexes ?? {}) as Array<
+    [string, (item: TItem) => IndexValue | IndexValue[]]
+  >;
+
+  return {
+    name: config.name,
+    initialState: {
+      items: {},
+      indexes: Object.fromEntries(indexes.map(([name]) => [name, {}])),
+    },
+    project: (state, event, envelope, services) => {
+      let items = state.items;
+      const buckets = { ...state.indexes };
+      const copied = new Set<string>();
+      let changed = false;
+
+      const bucketsOf = (name: string) => {
+        if (!copied.has(name)) {
+          buckets[name] = { ...buckets[name] };
+          copied.add(name);
+        }
+        return buckets[name];
+      };
+
+      const unindex = (id: string, item: TItem) => {
+        for (const [name, index] of indexes) {
+          const byValue = bucketsOf(name);
+          for (const value of indexKeys(index(item))) {
+            const ids = (byValue[value] ?? []).filter((existing) => existing !== id);
+            if (ids.length > 0) byValue[value] = ids;
+            else delete byValue[value];
+          }
+        }
+      };
+
+      const reindex = (id: string, item: TItem) => {
+        for (const [name, index] of indexes) {
+          const byValue = bucketsOf(name);
+          for (const value of indexKeys(index(item))) {
+            byValue[value] = [...(byValue[value] ?? []), id];
+          }
+        }
+      };
+
+      const write = (id: string, item: TItem | undefined) => {
+        const previous = items[id];
+        if (previous !== undefined) unindex(id, previous);
+
+        if (item === undefined) {
+          const { [id]: _removed, ...rest } = items;
+          items = rest;
+        } else {
+          items = { ...items, [id]: item };
+          reindex(id, item);
+        }
+        changed = true;
+      };
+
+      config.apply(
+        event,
+        {
+          get: (id) => items[id],
+          put: (item) => write(config.key(item), item),
+          update: (id, change) => {
+            const item = items[id];
+            if (item !== undefined) write(id, change(item));
+          },
+          remove: (id) => {
+            if (items[id] !== undefined) write(id, undefined);
+          },
+        },
+        envelope,
+        services
+      );
+
+      return changed ? { items, indexes: buckets } : state;
+    },
+  };
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+function runQuery<TItem, TIndex extends string>(
+  { items, indexes }: ReadModelState<TItem>,
+  query: ReadModelQuery<TItem, TIndex>
+): TItem[] {
+  // Intersect the index buckets, or start from every item
+  let ids: string[] | undefined;
+  for (const [name, value] of Object.entries(query.where ?? {}) as Array<[string, IndexValue]>) {
+    const bucket = indexes[name]?.[String(value)] ?? [];
+    ids = ids === undefined ? bucket : ids.filter((id) => bucket.includes(id));
+  }
+
+  let results = ids === undefined ? Object.values(items) : ids.map((id) => items[id]);
+  if (query.filter) {
+    results = results.filter(query.filter);
+  }
+
+  const { orderBy } = query;
+  if (orderBy !== undefined) {
+    const compare =
+      typeof orderBy === 'function'
+        ? orderBy
+        : (a: TItem, b: TItem) => (a[orderBy] < b[orderBy] ? -1 : a[orderBy] > b[orderBy] ? 1 : 0);
+    const sign = query.direction === 'desc' ? -1 : 1;
+    results = [...results].sort((a, b) => sign * compare(a, b));
+  }
+
+  const offset = query.offset ?? 0;
+  return results.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+}
+
+// ============================================================
+// Convenience Functions
+// ============================================================
+
+/**
+ * Add a read model to a system, fed by one decider. It is an ordinary
+ * projector underneath, so it rebuilds, time-travels and resets with the rest.
+ *
+ * const orders = createReadModel(system, {
+ *   name: 'Orders',
+ *   key: (order) => order.id,
+ *   indexes: { status: (order) => order.status },
+ *   apply: (event, items) => { ... },
+ * }, orderDecider);
+ *
+ * orders.query({ where: { status: 'placed' }, orderBy: 'placedAt', direction: 'desc', limit: 10 });
+ */
+export function createReadModel<TItem, TEvent, TIndex extends string = never>(
+  system: System,
+  config: ReadModelConfig<TItem, TEvent, TIndex>,
+  source: Decider<any, any, TEvent>
+): ReadModel<TItem, TIndex> {
+  const projector = system.addProjector(readModelProjector(config), source);
+  const { state } = projector;
+
+  return {
+    name: config.name,
+    projector,
+    all: computed(() => Object.values(state.value.items)),
+    get: (id) => computed(() => state.value.items[id]),
+    query: (query) => computed(() => runQuery(state.value, query)),
+    paginate: (query, { page, pageSize }) =>
+      computed(() => {
+        const matches = runQuery(state.value, query);
+        return {
+          items: matches.slice((page - 1) * pageSize, page * pageSize),
+          page,
+          pageSize,
+          total: matches.length,
+          pageCount: Math.ceil(matches.length / pageSize),
+        };
+      }),
+  };
+}